@@ -17,6 +17,8 @@ import { IAppServiceWizardContext } from './IAppServiceWizardContext';
 
 export class AppInsightsCreateStep extends AzureWizardExecuteStep<IAppServiceWizardContext> {
     public priority: number = 135;
+    public consumes: string[] = ['location', 'resourceGroup', 'newAppInsightsName'];
+    public produces: string[] = ['appInsightsComponent'];
 
     public async execute(wizardContext: IAppServiceWizardContext, progress: Progress<{ message?: string; increment?: number }>): Promise<void> {
         const resourceLocation: SubscriptionModels.Location = nonNullProp(wizardContext, 'location');
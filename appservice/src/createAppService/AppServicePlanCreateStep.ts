@@ -15,6 +15,8 @@ import { IAppServiceWizardContext } from './IAppServiceWizardContext';
 
 export class AppServicePlanCreateStep extends AzureWizardExecuteStep<IAppServiceWizardContext> {
     public priority: number = 120;
+    public consumes: string[] = ['newPlanName', 'newPlanSku', 'newSiteKind', 'newSiteOS', 'location', 'resourceGroup'];
+    public produces: string[] = ['plan'];
 
     public async execute(wizardContext: IAppServiceWizardContext, progress: Progress<{ message?: string; increment?: number }>): Promise<void> {
         const newPlanName: string = nonNullProp(wizardContext, 'newPlanName');
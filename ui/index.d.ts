@@ -9,7 +9,7 @@ import { SubscriptionModels } from '@azure/arm-subscriptions';
 import { Environment } from '@azure/ms-rest-azure-env';
 import { ServiceClient, ServiceClientCredentials } from '@azure/ms-rest-js';
 import { TokenCredentialsBase } from '@azure/ms-rest-nodeauth';
-import { Disposable, Event, ExtensionContext, FileChangeEvent, FileChangeType, FileStat, FileSystemProvider, FileType, InputBoxOptions, Memento, MessageItem, MessageOptions, OpenDialogOptions, OutputChannel, Progress, QuickPickItem, QuickPickOptions, TextDocument, TextDocumentShowOptions, ThemeIcon, TreeDataProvider, TreeItem, Uri } from 'vscode';
+import { CancellationToken, Disposable, Event, ExtensionContext, FileChangeEvent, FileChangeType, FileStat, FileSystemProvider, FileType, InputBoxOptions, Memento, MessageItem, MessageOptions, OpenDialogOptions, OutputChannel, Progress, QuickPickItem, QuickPickOptions, TextDocument, TextDocumentShowOptions, ThemeIcon, TreeDataProvider, TreeItem, TreeView, Uri } from 'vscode';
 import { AzureExtensionApi, AzureExtensionApiProvider } from './api';
 
 export type OpenInPortalOptions = {
@@ -22,10 +22,15 @@ export type OpenInPortalOptions = {
 /**
  * Tree Data Provider for an *Az*ure *Ext*ension
  */
-export declare class AzExtTreeDataProvider implements TreeDataProvider<AzExtTreeItem> {
+export declare class AzExtTreeDataProvider implements TreeDataProvider<AzExtTreeItem>, Disposable {
     public onDidChangeTreeData: Event<AzExtTreeItem>;
     public onTreeItemCreate: Event<AzExtTreeItem>;
 
+    /**
+     * Routes drops to `AzExtTreeItem.onDropImpl`. Pass this as the `dragAndDropController` option when creating the tree view (requires VS Code 1.66 or higher)
+     */
+    public readonly dragAndDropController: IAzExtTreeDragAndDropController;
+
     /**
      * Azure Tree Data Provider
      * @param rootTreeItem The root tree item. This item will not actually be displayed - just used to provide children.
@@ -49,6 +54,17 @@ export declare class AzExtTreeDataProvider implements TreeDataProvider<AzExtTree
      */
     public refresh(treeItem?: AzExtTreeItem): Promise<void>;
 
+    /**
+     * Lets the tree know when items are collapsed, so that it can stop polling items that aren't visible. See `AzExtTreeItem.transitionalState`
+     * @param treeView The view created for this tree with `window.createTreeView`
+     */
+    public registerTreeView(treeView: TreeView<AzExtTreeItem>): Disposable;
+
+    /**
+     * Stops polling all items in this tree
+     */
+    public dispose(): void;
+
     /**
      * Loads more children for a specific tree item
      * @param treeItem the load more tree item
@@ -82,6 +98,43 @@ export declare class AzExtTreeDataProvider implements TreeDataProvider<AzExtTree
      * @return Parent of `element`.
      */
     public getParent(treeItem: AzExtTreeItem): Promise<AzExtTreeItem | undefined>;
+
+    /**
+     * The current filter of the tree, or undefined if the tree isn't filtered
+     */
+    public readonly filter: ITreeFilter | undefined;
+
+    /**
+     * Only displays tree items that match the filter, their ancestors, and their descendants. A "Filtered by" tree item with context value 'azureextensionui.filter' is displayed at the top of the tree
+     * Only children that are already loaded are filtered. Parents whose children haven't been loaded yet are always displayed, and their children are filtered once loaded
+     * @param filter The filter to apply or 'undefined' to clear the filter
+     */
+    public setFilter(filter: ITreeFilter | undefined): void;
+
+    /**
+     * Prompts the user for a pattern and filters the tree. Meant to be registered as a command
+     * @param treeItem If not all children of this item have been loaded, the user is offered to load all children before filtering. Defaults to the root
+     */
+    public showFilter(context: IShowTreeFilterContext, treeItem?: AzExtParentTreeItem): Promise<void>;
+}
+
+export interface ITreeFilter {
+    /**
+     * Case-insensitive pattern matched anywhere in the label. Use '*' as a wildcard
+     */
+    pattern: string;
+
+    /**
+     * Defaults to false. If true, items whose description matches the pattern are also displayed
+     */
+    includeDescription?: boolean;
+}
+
+export interface IShowTreeFilterContext extends ILoadingTreeContext {
+    /**
+     * Defaults to false. If true, items whose description matches the pattern are also displayed
+     */
+    includeDescription?: boolean;
 }
 
 export interface ILoadingTreeContext extends IActionContext {
@@ -128,6 +181,44 @@ export interface ITreeItemPickerContext extends IActionContext {
     noItemFoundErrorMessage?: string;
 }
 
+export interface ITreeItemDrop {
+    /**
+     * Local files or folders dropped from outside the tree (e.g. from the Explorer)
+     */
+    uris: Uri[];
+
+    /**
+     * Other items from this tree
+     */
+    treeItems: AzExtTreeItem[];
+}
+
+/**
+ * Mirrors `vscode.TreeDragAndDropController`, which isn't available in the version of VS Code this package is built against
+ */
+export interface IAzExtTreeDragAndDropController {
+    readonly dropMimeTypes: readonly string[];
+    readonly dragMimeTypes: readonly string[];
+    handleDrag(source: readonly AzExtTreeItem[], dataTransfer: IAzExtDataTransfer, token: CancellationToken): void | Thenable<void>;
+    handleDrop(target: AzExtTreeItem | undefined, dataTransfer: IAzExtDataTransfer, token: CancellationToken): Thenable<void>;
+}
+
+/**
+ * Mirrors `vscode.DataTransfer`
+ */
+export interface IAzExtDataTransfer {
+    get(mimeType: string): IAzExtDataTransferItem | undefined;
+    set(mimeType: string, value: IAzExtDataTransferItem): void;
+}
+
+/**
+ * Mirrors `vscode.DataTransferItem`
+ */
+export interface IAzExtDataTransferItem {
+    readonly value: unknown;
+    asString(): Thenable<string>;
+}
+
 /**
  * Implement this class to display resources under a standard subscription tree item
  */
@@ -181,6 +272,13 @@ export declare abstract class AzExtTreeItem {
      */
     public commandArgs?: unknown[];
     public abstract contextValue: string;
+
+    /**
+     * Set this while the resource is in a transitional state (e.g. "Starting", "Stopping", "Deploying", or "Creating") and it will be polled with `refreshImpl` until this is undefined again.
+     * Polling uses backoff, is limited to a few items at a time across all trees, and stops if the item is removed from the tree or hidden under a collapsed item (see `AzExtTreeDataProvider.registerTreeView`).
+     * Polling starts the next time the item is displayed, so call `refresh` after setting this
+     */
+    public transitionalState?: string;
     //#endregion
 
     /**
@@ -202,6 +300,11 @@ export declare abstract class AzExtTreeItem {
      */
     public deleteTreeItemImpl?(context: IActionContext): Promise<void>;
 
+    /**
+     * Implement this to support dropping local files/folders or other tree items onto this node. See `AzExtTreeDataProvider.dragAndDropController`. Should not be called directly
+     */
+    public onDropImpl?(context: IActionContext, drop: ITreeItemDrop): Promise<void>;
+
     /**
      * Implement this to execute any async code when this node is refreshed. Should not be called directly
      */
@@ -310,6 +413,14 @@ export declare abstract class AzExtParentTreeItem extends AzExtTreeItem {
      * If specified, this will be shown instead of the default message `Create new ${this.childTypeLabel}...` in the tree item picker
      */
     createNewLabel?: string;
+
+    /**
+     * If specified, a lightweight snapshot of this item's children (id, label, description, and icon) is saved here whenever they're loaded.
+     * The next time the children are displayed (e.g. after VS Code restarts), the snapshot is rendered immediately and marked as cached while the real children are loaded in the background.
+     * Cached items have the context value "azureextensionui.cachedTreeItem", so the extension's menus aren't displayed for them until the real children are loaded
+     * Typically `ext.context.globalState` or `ext.context.workspaceState`
+     */
+    childrenSnapshotPersistence?: Memento;
     //#endregion
 
     //#region Methods implemented by base class
@@ -392,6 +503,50 @@ export interface ICreateChildImplContext extends IActionContext {
     advancedCreation?: boolean;
 }
 
+/**
+ * A page of results, as returned by most Azure SDK list operations
+ */
+export interface IPartialList<T> extends Array<T> {
+    /**
+     * The link to the next page of results, or undefined if this is the last page
+     */
+    nextLink?: string;
+}
+
+/**
+ * A parent tree item whose children are listed one page at a time using a continuation link (aka "nextLink").
+ * `hasMoreChildrenImpl` and `loadMoreChildrenImpl` are implemented by this class
+ */
+export declare abstract class AzExtPagedParentTreeItem<TSource> extends AzExtParentTreeItem {
+    //#region Properties implemented by base class
+    /**
+     * The maximum number of children to display each time "Load More..." is clicked. Pages from the service are split or combined as necessary to match this size.
+     * If undefined, each page from the service is displayed as-is. Must be at least 1
+     */
+    pageSize?: number;
+    //#endregion
+
+    //#region Methods implemented by base class
+    /**
+     * Implement this to list the first page of sources (e.g. `client.webApps.list()`). Should not be called directly
+     */
+    public abstract listFirstPageImpl(context: IActionContext): Promise<IPartialList<TSource>>;
+
+    /**
+     * Implement this to list the page at `nextLink` (e.g. `client.webApps.listNext(nextLink)`). Should not be called directly
+     */
+    public abstract listNextPageImpl(nextLink: string, context: IActionContext): Promise<IPartialList<TSource>>;
+
+    /**
+     * Implement this to convert a page of sources to tree items, typically with `createTreeItemsWithErrorHandling`. Should not be called directly
+     */
+    public abstract createTreeItemsImpl(sources: TSource[], context: IActionContext): Promise<AzExtTreeItem[]>;
+    //#endregion
+
+    public hasMoreChildrenImpl(): boolean;
+    public loadMoreChildrenImpl(clearCache: boolean, context: IActionContext): Promise<AzExtTreeItem[]>;
+}
+
 /**
  * A tree item for an Azure Account, which will display subscriptions. For Azure-centered extensions, this will be at the root of the tree.
  */
@@ -511,6 +666,13 @@ export declare abstract class BaseEditor<ContextT> implements Disposable {
      */
     abstract getSaveConfirmationText(context: ContextT): Promise<string>;
 
+    /**
+     * Implement this to detect conflicts on save, for example by returning the etag of the remote file.
+     * If the version changed since the file was downloaded, a diff is shown and the user can choose to overwrite the remote changes or take the remote version
+     * NOTE: This is called again after `updateData`, so a remote change made in between those two calls won't be detected
+     */
+    getVersion?(context: ContextT): Promise<string | undefined>;
+
     onDidSaveTextDocument(actionContext: IActionContext, globalState: Memento, doc: TextDocument): Promise<void>;
     showEditor(context: ContextT, sizeLimit?: number): Promise<void>;
     dispose(): Promise<void>;
@@ -525,6 +687,35 @@ export type CommandCallback = (context: IActionContext, ...args: any[]) => any;
  */
 export declare function registerCommand(commandId: string, callback: CommandCallback, debounce?: number): void;
 
+export interface IBulkCommandOptions {
+    /**
+     * Used to prompt for tree items if the command is run from the command palette
+     */
+    treeDataProvider: AzExtTreeDataProvider;
+
+    /**
+     * The context values of tree items that support this command. Other selected items are skipped
+     */
+    expectedContextValues: string | RegExp | (string | RegExp)[];
+
+    /**
+     * The title of the progress notification, e.g. "Restarting web apps"
+     */
+    progressTitle: string;
+
+    /**
+     * The maximum number of tree items to process at a time. Defaults to 5
+     */
+    maxConcurrency?: number;
+}
+
+/**
+ * Used to register VSCode commands that act on one or more tree items, for example from a tree view with `canSelectMany`. The callback is called once per selected item.
+ * If multiple items are selected, they're processed with bounded concurrency and a single progress notification, and any errors are combined into a single error.
+ * In that case, each item gets its own action context (and telemetry event with the id "<commandId>.item")
+ */
+export declare function registerBulkCommand<T extends AzExtTreeItem>(commandId: string, callback: (context: IActionContext, treeItem: T) => Promise<void>, options: IBulkCommandOptions): void;
+
 /**
  * Used to register VSCode events. It wraps your callback with consistent error and telemetry handling
  * NOTE #1: By default, this sends a telemetry event every single time the event fires. It it recommended to use 'context.telemetry.suppressIfSuccessful' to only send events if they apply to your extension
@@ -547,6 +738,18 @@ export declare function callWithTelemetryAndErrorHandlingSync<T>(callbackId: str
  */
 export declare function callWithMaskHandling<T>(callback: () => Promise<T>, valueToMask: string): Promise<T>;
 
+/**
+ * Registers a sensitive value (e.g. publishing credentials, SAS urls, connection strings, or keys) to be masked with "***" until the returned disposable is disposed.
+ * The value and its URL-encoded variant are masked in the output channel, parsed errors, issue reports, and telemetry.
+ * Dispose at the end of an action for values that only apply to that action, or add to `ExtensionContext.subscriptions` for values that apply to the whole session
+ */
+export declare function registerSecretValue(value: string): Disposable;
+
+/**
+ * Masks all values registered with `registerSecretValue` in the given string
+ */
+export declare function maskSecretValues(value: string): string;
+
 /**
  * A generic context object that describes the behavior of an action and allows for specifying custom telemetry properties and measurements
  * You may also extend this object if you need to pass along custom properties through things like a wizard or tree item picker
@@ -561,6 +764,34 @@ export interface IActionContext {
      * Describes the behavior of error handling for this action
      */
     errorHandling: IErrorHandlingContext;
+
+    /**
+     * Defaults to `undefined`. If set, `callWithTelemetryAndErrorHandling` will call the action again if it fails with a retryable error
+     * NOTE: The entire action is retried with the same context, so only set this for actions that are safe to run multiple times
+     */
+    retryPolicy?: IRetryPolicy;
+}
+
+export interface IRetryPolicy {
+    /**
+     * Defaults to 3. The maximum number of times the action will be attempted, including the first attempt
+     */
+    maxAttempts?: number;
+
+    /**
+     * Defaults to 1000. The number of milliseconds to wait before the first retry. The delay is doubled for each subsequent retry
+     */
+    initialDelayMs?: number;
+
+    /**
+     * Defaults to 30000. The maximum number of milliseconds to wait between attempts. If the server asks for a longer delay with a "Retry-After" header, the action is not retried
+     */
+    maxDelayMs?: number;
+
+    /**
+     * Defaults to 'throttled', 'network', and 'server'. The categories of errors that will be retried
+     */
+    retryableCategories?: ErrorCategory[];
 }
 
 export interface ITelemetryContext {
@@ -655,6 +886,31 @@ export function registerErrorHandler(handler: ErrorHandler): Disposable;
  */
 export function registerTelemetryHandler(handler: TelemetryHandler): Disposable;
 
+export interface ITelemetryRedactionRule {
+    /**
+     * The pattern to redact. Make sure to include the global flag if every occurrence should be redacted
+     */
+    pattern: RegExp;
+
+    /**
+     * Defaults to "<REDACTED>". Supports the same replacement patterns as `String.prototype.replace` (e.g. "$1")
+     */
+    replacement?: string;
+}
+
+/**
+ * Register a rule to redact sensitive information from error-related telemetry properties (e.g. "errorMessage" or "stack") before they are sent.
+ * This runs in addition to the built-in rules, which redact paths under the home directory, GUIDs, emails, SAS tokens, and secrets in connection strings
+ */
+export function registerTelemetryRedactionRule(rule: ITelemetryRedactionRule): Disposable;
+
+/**
+ * Opens the local telemetry log, which contains every telemetry event sent by this package as a line of JSON.
+ * Events are only logged if the user enables the "enableLocalTelemetryLog" setting (prefixed by the output channel's `extensionPrefix`, so the log is not available if it's undefined).
+ * The log is stored in the extension's log directory and rotated once it reaches 5 MB. Meant to be registered as a command by the extension
+ */
+export function openLocalTelemetryLog(): Promise<void>;
+
 export declare function parseError(error: any): IParsedError;
 
 export interface IParsedError {
@@ -662,8 +918,35 @@ export interface IParsedError {
     message: string;
     stack?: string;
     isUserCancelledError: boolean;
+
+    /**
+     * A normalized category for the error, or undefined if the error doesn't fit any known category
+     */
+    category?: ErrorCategory;
+
+    /**
+     * The HTTP status code of the failed request, if any
+     */
+    statusCode?: number;
+
+    /**
+     * The value of the "x-ms-request-id" header of the failed request, if any. Users can give this to support to help investigate the failure
+     */
+    requestId?: string;
+
+    /**
+     * The value of the "x-ms-correlation-request-id" header of the failed request, if any
+     */
+    correlationId?: string;
+
+    /**
+     * The number of milliseconds the server asked to wait before retrying the request (based on the "Retry-After" header), if any
+     */
+    retryAfterMs?: number;
 }
 
+export type ErrorCategory = 'authentication' | 'authorization' | 'not-found' | 'conflict' | 'throttled' | 'quota' | 'network' | 'server' | 'validation';
+
 export type PromptResult = string | QuickPickItem | QuickPickItem[] | MessageItem | Uri[];
 
 /**
@@ -831,6 +1114,57 @@ export interface IWizardOptions<T extends IActionContext> {
      * If true, step count will not be displayed for the entire wizard. Defaults to false.
      */
     hideStepCount?: boolean;
+
+    /**
+     * If true, a summary of the value chosen for each step will be displayed after the last prompt. The user can either confirm or select a value to go back to that step. Defaults to false.
+     * Not displayed in non-interactive mode
+     */
+    showSummary?: boolean;
+
+    /**
+     * If true, the answers of a partially completed wizard are saved to `ExtensionContext.globalState` (for example if the user cancels or VS Code reloads)
+     * and the user will be offered to resume the next time a wizard with the same `title` is started. Requires `title` to be set. Defaults to false.
+     * If the execute steps fail, the session is kept and execute steps that already finished are skipped when it's resumed.
+     * NOTE: Only plain data set on the context during the wizard is saved, and nothing is saved after the user enters a password.
+     * A step that sets anything else (like credentials) runs again when the session is resumed, rather than restoring only some of its values
+     */
+    resumable?: boolean;
+
+    /**
+     * If specified, the wizard will run in non-interactive mode and every prompt will be satisfied from these answers instead of displaying UI.
+     * The wizard will fail with an error listing the unanswered steps if a step needs to prompt and no answer was provided.
+     */
+    answers?: IWizardAnswers;
+
+    /**
+     * Cancels the execute steps in addition to the "Cancel" button on the progress notification (e.g. if whatever started the wizard is cancelled)
+     */
+    cancellationToken?: CancellationToken;
+}
+
+/**
+ * An answer to a single prompt in non-interactive mode.
+ * For an input box, this is the value entered. For a quick pick, this is the `id` or `label` of the pick (or an array of them if the quick pick supports picking many)
+ * For a warning message, this is the title of the message item. For an open dialog, this is the path of the file or folder (or an array of paths)
+ */
+export type WizardAnswer = string | string[];
+
+/**
+ * Answers used to run an `AzureWizard` in non-interactive mode. Typically parsed from a JSON or YAML file
+ */
+export interface IWizardAnswers {
+    /**
+     * Values assigned directly to the wizard context before prompting, keyed by context property.
+     * Steps whose `shouldPrompt` returns false as a result will be skipped
+     */
+    context?: { [property: string]: unknown };
+
+    /**
+     * Answers for prompts, keyed by the class name of the step (e.g. "ResourceGroupNameStep").
+     * If a step prompts multiple times, specify an array with an answer for each prompt in order.
+     * NOTE: An array is always treated as a list of prompts, so a multi-select quick pick must be nested like `[["pick1", "pick2"]]`
+     */
+    steps?: { [stepName: string]: WizardAnswer | WizardAnswer[] };
 }
 
 /**
@@ -845,6 +1179,37 @@ export declare class AzureWizard<T extends IActionContext> {
 
     public prompt(): Promise<void>;
     public execute(): Promise<void>;
+
+    /**
+     * Describes what `execute` would do without actually executing anything. Should be called after `prompt` instead of `execute`
+     * Every execute step whose `shouldExecute` returns true is included in the plan, in the order they would execute
+     * @param options.show If true, the plan is also displayed in a read-only json editor. Defaults to false
+     */
+    public plan(options?: { show?: boolean }): Promise<IWizardPlanItem[]>;
+}
+
+/**
+ * Describes the resource an execute step would create, used by `AzureWizard.plan`
+ */
+export interface IResourceDescription {
+    /**
+     * The type of resource, e.g. "Microsoft.Storage/storageAccounts"
+     */
+    type: string;
+    name?: string;
+    location?: string;
+
+    /**
+     * Any other key properties of the resource, e.g. the sku
+     */
+    properties?: { [key: string]: unknown };
+}
+
+export interface IWizardPlanItem extends Partial<IResourceDescription> {
+    /**
+     * The class name of the execute step. If the step does not implement `describe`, this is the only property defined
+     */
+    step: string;
 }
 
 export declare abstract class AzureWizardExecuteStep<T extends IActionContext> {
@@ -853,16 +1218,41 @@ export declare abstract class AzureWizardExecuteStep<T extends IActionContext> {
      */
     public abstract priority: number;
 
+    /**
+     * The wizard context properties set by this step.
+     * If both `produces` and `consumes` are defined, this step may execute in parallel with other steps. It will only wait for steps with a smaller priority that produce a property it consumes or produces, or that consume a property it produces
+     * Otherwise, this step will wait for all steps with a smaller priority to finish and all steps with a larger priority will wait for it
+     */
+    public produces?: string[];
+
+    /**
+     * The wizard context properties used by this step. See `produces` for more information
+     */
+    public consumes?: string[];
+
     /**
      * Execute the step
+     * @param cancellationToken Signals that the user cancelled the wizard. The wizard will not start any more steps, but long-running steps should also check this token and stop early if possible
      */
-    public abstract execute(wizardContext: T, progress: Progress<{ message?: string; increment?: number }>): Promise<void>;
+    public abstract execute(wizardContext: T, progress: Progress<{ message?: string; increment?: number }>, cancellationToken?: CancellationToken): Promise<void>;
 
     /**
      * Return true if this step should execute based on the current state of the wizardContext
      * Used to prevent duplicate executions from sub wizards and unnecessary executions for values that had a default
      */
     public abstract shouldExecute(wizardContext: T): boolean;
+
+    /**
+     * Optionally implement this to clean up anything created by `execute`, for example deleting a resource.
+     * If a later step fails or the user cancels, the user will be asked whether to clean up and this will be called in reverse order for every step that completed
+     * NOTE: This is not called for the step that failed
+     */
+    public rollback?(wizardContext: T, progress: Progress<{ message?: string; increment?: number }>): Promise<void>;
+
+    /**
+     * Optionally implement this to describe the resource that `execute` would create, without creating it. Used by `AzureWizard.plan`
+     */
+    public describe?(wizardContext: T): IResourceDescription | undefined | Promise<IResourceDescription | undefined>;
 }
 
 export declare abstract class AzureWizardPromptStep<T extends IActionContext> {
@@ -999,8 +1389,13 @@ export declare class VerifyProvidersStep<T extends ISubscriptionWizardContext> e
      */
     public constructor(providers: string[]);
 
-    public execute(wizardContext: T, progress: Progress<{ message?: string; increment?: number }>): Promise<void>;
+    public execute(wizardContext: T, progress: Progress<{ message?: string; increment?: number }>, cancellationToken?: CancellationToken): Promise<void>;
     public shouldExecute(wizardContext: T): boolean;
+
+    /**
+     * Describes the providers that would be registered
+     */
+    public describe(wizardContext: T): IResourceDescription;
 }
 
 export interface IResourceGroupWizardContext extends ILocationWizardContext, IRelatedNameWizardContext {
@@ -1057,6 +1452,16 @@ export declare class ResourceGroupCreateStep<T extends IResourceGroupWizardConte
     public priority: number;
     public execute(wizardContext: T, progress: Progress<{ message?: string; increment?: number }>): Promise<void>;
     public shouldExecute(wizardContext: T): boolean;
+
+    /**
+     * Describes the resource group that would be created
+     */
+    public describe(wizardContext: T): IResourceDescription;
+
+    /**
+     * Deletes the resource group if it was created by `execute`
+     */
+    public rollback(wizardContext: T, progress: Progress<{ message?: string; increment?: number }>): Promise<void>;
 }
 
 export interface IStorageAccountWizardContext extends IResourceGroupWizardContext {
@@ -1150,6 +1555,16 @@ export declare class StorageAccountCreateStep<T extends IStorageAccountWizardCon
 
     public execute(wizardContext: T, progress: Progress<{ message?: string; increment?: number }>): Promise<void>;
     public shouldExecute(wizardContext: T): boolean;
+
+    /**
+     * Describes the storage account that would be created
+     */
+    public describe(wizardContext: T): IResourceDescription;
+
+    /**
+     * Deletes the storage account if it was created by `execute`
+     */
+    public rollback(wizardContext: T, progress: Progress<{ message?: string; increment?: number }>): Promise<void>;
 }
 
 /**
@@ -1166,6 +1581,8 @@ export declare namespace DialogResponses {
     export const upload: MessageItem;
     export const alwaysUpload: MessageItem;
     export const dontUpload: MessageItem;
+    export const overwrite: MessageItem;
+    export const takeRemote: MessageItem;
     export const reportAnIssue: MessageItem;
 }
 
@@ -1252,13 +1669,31 @@ export function createApiProvider(azExts: AzureExtensionApi[]): AzureExtensionAp
  */
 export interface IAzExtOutputChannel extends OutputChannel {
 
+    /**
+     * The configuration prefix for the extension, used to access settings like enableOutputTimestamps. Always set by `createAzExtOutputChannel`
+     * If undefined, features that rely on the extension's settings or context keys (like the local telemetry log and the live content commands) are disabled
+     */
+    readonly extensionPrefix?: string;
+
     /**
      * appendLog adds the current timestamps to all messages
+     * Messages below the level specified by the "outputLogLevel" setting (prefixed by `extensionPrefix`) are not displayed. The setting defaults to "info"
      * @param value The message to be printed
      * @param options.resourceName The name of the resource. If provided, the resource name will be prefixed to the message
      * @param options.date The date to prepend before the message, otherwise it defaults to Date.now()
+     * @param options.level Defaults to "info". The level is prefixed to the message if it's not "info"
+     * @param options.data Structured data to be serialized as JSON and appended to the message
      */
-    appendLog(value: string, options?: { resourceName?: string, date?: Date }): void;
+    appendLog(value: string, options?: IAppendLogOptions): void;
+}
+
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warning' | 'error';
+
+export interface IAppendLogOptions {
+    resourceName?: string;
+    date?: Date;
+    level?: LogLevel;
+    data?: unknown;
 }
 
 /**
@@ -1266,8 +1701,34 @@ export interface IAzExtOutputChannel extends OutputChannel {
  *
  * @param name Human-readable string which will be used to represent the channel in the UI.
  * @param extensionPrefix The configuration prefix for the extension, used to access the enableOutputTimestamps setting
+ * @param options Optionally mirror everything written to the channel into log files on disk
+ */
+export function createAzExtOutputChannel(name: string, extensionPrefix: string, options?: IAzExtOutputChannelOptions): IAzExtOutputChannel;
+
+export interface IAzExtOutputChannelOptions {
+    /**
+     * If specified, everything written to the output channel is also written to log files in this folder, which means the output is still available after VS Code is closed.
+     * A new file is started for each session. Use a folder that's the same for every session (e.g. under `ExtensionContext.globalStoragePath`) so that files from previous sessions count towards `maxLogFiles`.
+     * `ExtensionContext.logPath` is different for each session, so its files would never be cleaned up by this package
+     */
+    logPath?: string;
+
+    /**
+     * Defaults to 5. The number of log files to keep. The oldest files are deleted first
+     */
+    maxLogFiles?: number;
+
+    /**
+     * Defaults to 1 MB. A new log file is started once the current file reaches this size (in bytes)
+     */
+    maxLogFileSize?: number;
+}
+
+/**
+ * Reveals the log files of `ext.outputChannel` in the OS file explorer. Only supported if `logPath` was specified when creating the output channel.
+ * Meant to be registered as a command by the extension
  */
-export function createAzExtOutputChannel(name: string, extensionPrefix: string): IAzExtOutputChannel;
+export function revealOutputChannelLogs(): Promise<void>;
 
 /**
  * Opens a read-only editor to display json content
@@ -1277,8 +1738,37 @@ export function createAzExtOutputChannel(name: string, extensionPrefix: string):
 export function openReadOnlyJson(node: { label: string, fullId: string }, data: {}): Promise<void>;
 
 export class ReadOnlyContent {
+    /**
+     * True if opened with `liveOptions`
+     */
+    public readonly isLive: boolean;
+
+    /**
+     * True while the document is paused. Appended content is still kept (up to the limits of `liveOptions`), but isn't displayed until resumed
+     */
+    public readonly isPaused: boolean;
+
     public append(content: string): Promise<void>;
     public clear(): void;
+    public pause(): void;
+    public resume(): void;
+}
+
+export interface ILiveContentOptions {
+    /**
+     * Only the last `maxLines` lines are kept, for example when streaming logs
+     */
+    maxLines?: number;
+
+    /**
+     * Only (roughly) the last `maxBytes` bytes are kept. Content is dropped a whole line at a time if possible
+     */
+    maxBytes?: number;
+
+    /**
+     * Reveal the end of the document when new content arrives (unless paused). Defaults to true
+     */
+    follow?: boolean;
 }
 
 /**
@@ -1287,8 +1777,15 @@ export class ReadOnlyContent {
  * @param content The content to display
  * @param fileExtension The file extension
  * @param options Options for showing the text document
+ * @param liveOptions Pass these to use the document for content that keeps being appended, like a log stream
  */
-export function openReadOnlyContent(node: { label: string, fullId: string }, content: string, fileExtension: string, options?: TextDocumentShowOptions): Promise<ReadOnlyContent>;
+export function openReadOnlyContent(node: { label: string, fullId: string }, content: string, fileExtension: string, options?: TextDocumentShowOptions, liveOptions?: ILiveContentOptions): Promise<ReadOnlyContent>;
+
+/**
+ * Registers commands to pause and resume live read-only content (see `openReadOnlyContent`). Add them to the `editor/title` menu in your extension's package.json
+ * with the `when` clauses `<extensionPrefix>.liveContentState == live` and `<extensionPrefix>.liveContentState == paused` respectively (the output channel's `extensionPrefix` must be defined)
+ */
+export function registerLiveContentCommands(pauseCommandId: string, resumeCommandId: string): void;
 
 /**
  * The event used to signal an item change for `AzExtTreeFileSystem`
@@ -1320,15 +1817,39 @@ export type AzExtItemUriParts = {
 };
 
 /**
- * A virtual file system based around AzExTreeItems that only supports viewing/editing single files.
+ * The metadata of a file in `AzExtTreeFileSystem`
+ */
+export interface AzExtFileStat extends FileStat {
+    /**
+     * Used instead of `mtime` to detect changes if defined
+     */
+    etag?: string;
+}
+
+/**
+ * A virtual file system based around AzExtTreeItems. Viewing/editing single files is always supported, and directories are supported if the optional `*Impl` methods are implemented.
+ * Uris of items in a directory are resolved by matching the last segment of `getFilePath` for each child item, so a directory item can be mounted as a workspace folder.
+ * Errors thrown by the `*Impl` methods are converted to a `FileSystemError` based on `parseError`. For example, a 404 becomes `FileNotFound` and a 409 or 412 becomes `FileExists`.
+ * A 412 thrown by `writeFileImpl` is reported as the file having been changed by someone else
  */
 export declare abstract class AzExtTreeFileSystem<TItem extends AzExtTreeItem> implements FileSystemProvider {
     public abstract scheme: string;
 
+    /**
+     * If set, watched files are polled at this interval (using `statImpl`) and `onDidChangeFile` fires when their etag or mtime changes.
+     * Saving a file that changed remotely since it was read will also fail with a conflict error, rather than overwriting someone else's changes
+     */
+    public watchIntervalMs?: number;
+
     public constructor(tree: AzExtTreeDataProvider);
 
     public get onDidChangeFile(): Event<FileChangeEvent[]>;
 
+    /**
+     * Stops polling for changes to watched files. Add the file system to `ExtensionContext.subscriptions` (in addition to the result of `registerFileSystemProvider`) if `watchIntervalMs` is set
+     */
+    public dispose(): void;
+
     /**
      * Retrieve the file path for an item, for display-purposes only. Will affect the tab-title and "Open Editors" panel
      *
@@ -1346,10 +1867,10 @@ export declare abstract class AzExtTreeFileSystem<TItem extends AzExtTreeItem> i
      * @param context The action context
      * @param item The item represented by the uri.
      * @param originalUri The original uri for the item.
-     * @return The file metadata about the file.
+     * @return The file metadata about the file. Include the `etag` if the service provides one
      * @throws [`FileNotFound`](#FileSystemError.FileNotFound) when `item` is not found.
      */
-    public abstract statImpl(context: IActionContext, item: TItem, originalUri: Uri): Promise<FileStat>;
+    public abstract statImpl(context: IActionContext, item: TItem, originalUri: Uri): Promise<AzExtFileStat>;
 
     /**
      * Read the entire contents of a file.
@@ -1373,38 +1894,71 @@ export declare abstract class AzExtTreeFileSystem<TItem extends AzExtTreeItem> i
      */
     public abstract writeFileImpl(context: IActionContext, item: TItem, content: Uint8Array, originalUri: Uri): Promise<void>;
 
-    public showTextDocument(item: TItem, options?: TextDocumentShowOptions): Promise<void>;
-
     /**
-     * Uses a simple buffer to group events that occur within a few milliseconds of each other
+     * Retrieve all entries of a directory. Implement this to support `readDirectory`
+     *
+     * @param context The action context
+     * @param item The directory item represented by the uri.
+     * @param originalUri The original uri for the item.
+     * @return An array of name/type-tuples.
      */
-    public fireSoon(...events: AzExtItemChangeEvent<TItem>[]): void;
+    public readDirectoryImpl?(context: IActionContext, item: TItem, originalUri: Uri): Promise<[string, FileType][]>;
 
-    //#region vscode.FileSystemProvider methods
-    public watch(): Disposable;
-    public stat(uri: Uri): Promise<FileStat>;
-    public readFile(uri: Uri): Promise<Uint8Array>;
-    public writeFile(uri: Uri, content: Uint8Array): Promise<void>;
+    /**
+     * Create a new directory. Implement this to support `createDirectory`
+     *
+     * @param context The action context
+     * @param parentItem The item of the directory that will contain the new directory.
+     * @param name The name of the new directory.
+     * @param originalUri The original uri for the new directory.
+     */
+    public createDirectoryImpl?(context: IActionContext, parentItem: TItem, name: string, originalUri: Uri): Promise<void>;
 
     /**
-     * Not supported for this file system
+     * Delete a file or directory. Implement this to support `delete`
+     *
+     * @param context The action context
+     * @param item The item represented by the uri.
+     * @param options Defines if deletion of folders is recursive.
+     * @param originalUri The original uri for the item.
      */
-    public readDirectory(uri: Uri): Promise<[string, FileType][]>;
+    public deleteImpl?(context: IActionContext, item: TItem, options: { recursive: boolean }, originalUri: Uri): Promise<void>;
 
     /**
-     * Not supported for this file system
+     * Rename or move a file or directory. Implement this to support `rename`
+     *
+     * @param context The action context
+     * @param item The item represented by the original uri.
+     * @param newParentItem The item of the directory that will contain the renamed item.
+     * @param newName The new name of the item.
+     * @param options Defines if existing files should be overwritten.
+     * @param originalUri The original uri for the item.
+     * @param newUri The new uri for the item.
      */
-    public createDirectory(uri: Uri): Promise<void>;
+    public renameImpl?(context: IActionContext, item: TItem, newParentItem: TItem, newName: string, options: { overwrite: boolean }, originalUri: Uri, newUri: Uri): Promise<void>;
 
     /**
-     * Not supported for this file system
+     * The uri of an item in this file system, e.g. to add a directory as a workspace folder
      */
-    public delete(uri: Uri): Promise<void>;
+    public getUri(item: TItem): Uri;
+
+    public showTextDocument(item: TItem, options?: TextDocumentShowOptions): Promise<void>;
 
     /**
-     * Not supported for this file system
+     * Uses a simple buffer to group events that occur within a few milliseconds of each other
      */
-    public rename(uri: Uri): Promise<void>;
+    public fireSoon(...events: AzExtItemChangeEvent<TItem>[]): void;
+
+    //#region vscode.FileSystemProvider methods
+    public watch(uri: Uri): Disposable;
+    public stat(uri: Uri): Promise<FileStat>;
+    public readFile(uri: Uri): Promise<Uint8Array>;
+    public writeFile(uri: Uri, content: Uint8Array): Promise<void>;
+
+    public readDirectory(uri: Uri): Promise<[string, FileType][]>;
+    public createDirectory(uri: Uri): Promise<void>;
+    public delete(uri: Uri, options: { recursive: boolean }): Promise<void>;
+    public rename(oldUri: Uri, newUri: Uri, options: { overwrite: boolean }): Promise<void>;
     //#endregion
 
     /**
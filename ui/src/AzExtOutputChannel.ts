@@ -3,46 +3,106 @@
 *  Licensed under the MIT License. See License.txt in the project root for license information.
 *--------------------------------------------------------------------------------------------*/
 
-import { OutputChannel, ViewColumn, window, workspace, WorkspaceConfiguration } from "vscode";
+import * as os from 'os';
+import { commands, OutputChannel, Uri, ViewColumn, window, workspace, WorkspaceConfiguration } from "vscode";
 import * as types from '../index';
+import { ext } from './extensionVariables';
+import { localize } from './localize';
+import { RotatingLogFile } from './RotatingLogFile';
+import { maskSecretValues } from './secretRegistry';
+
+const logLevels: types.LogLevel[] = ['trace', 'debug', 'info', 'warning', 'error'];
 
 // tslint:disable-next-line: export-name
-export function createAzExtOutputChannel(name: string, extensionPrefix: string): types.IAzExtOutputChannel {
-    return new AzExtOutputChannel(name, extensionPrefix);
+export function createAzExtOutputChannel(name: string, extensionPrefix: string, options?: types.IAzExtOutputChannelOptions): types.IAzExtOutputChannel {
+    return new AzExtOutputChannel(name, extensionPrefix, options);
+}
+
+export async function revealOutputChannelLogs(): Promise<void> {
+    const logFile: RotatingLogFile | undefined = ext.outputChannel instanceof AzExtOutputChannel ? ext.outputChannel.logFile : undefined;
+    if (!logFile) {
+        throw new Error(localize('noOutputLogs', 'Output is not being saved to disk.'));
+    }
+
+    await logFile.flush();
+    // Revealing the current file opens the folder and highlights the most relevant file
+    // tslint:disable-next-line: strict-boolean-expressions
+    await commands.executeCommand('revealFileInOS', Uri.file(logFile.currentFile || logFile.folder));
+}
+
+/**
+ * Returns the last lines written to disk by the extension's output channel, or undefined if the output channel isn't saving to disk
+ */
+export async function getOutputLogExcerpt(maxLines: number): Promise<string | undefined> {
+    const logFile: RotatingLogFile | undefined = ext.outputChannel instanceof AzExtOutputChannel ? ext.outputChannel.logFile : undefined;
+    return logFile ? await logFile.readTail(maxLines) : undefined;
 }
 
 class AzExtOutputChannel implements types.IAzExtOutputChannel {
     public readonly name: string;
     public readonly extensionPrefix: string;
+    public readonly logFile: RotatingLogFile | undefined;
     private _outputChannel: OutputChannel;
 
-    constructor(name: string, extensionPrefix: string) {
+    constructor(name: string, extensionPrefix: string, options?: types.IAzExtOutputChannelOptions) {
         this.name = name;
         this.extensionPrefix = extensionPrefix;
         this._outputChannel = window.createOutputChannel(this.name);
+
+        if (options?.logPath) {
+            // tslint:disable-next-line: strict-boolean-expressions
+            this.logFile = new RotatingLogFile(options.logPath, name, options.maxLogFiles || 5, options.maxLogFileSize || 1024 * 1024);
+        }
     }
 
     public append(value: string): void {
+        value = maskSecretValues(value);
         this._outputChannel.append(value);
+        if (this.logFile) {
+            this.logFile.append(value);
+        }
     }
 
     public appendLine(value: string): void {
+        value = maskSecretValues(value);
         this._outputChannel.appendLine(value);
+        if (this.logFile) {
+            this.logFile.append(value + os.EOL);
+        }
     }
 
-    public appendLog(value: string, options?: { resourceName?: string, date?: Date }): void {
+    public appendLog(value: string, options?: types.IAppendLogOptions): void {
         const enableOutputTimestampsSetting: string = 'enableOutputTimestamps';
+        const outputLogLevelSetting: string = 'outputLogLevel';
         const projectConfiguration: WorkspaceConfiguration = workspace.getConfiguration(this.extensionPrefix);
-        const result: boolean | undefined = projectConfiguration.get<boolean>(enableOutputTimestampsSetting);
-
-        if (!result) {
-            this.appendLine(value);
-        } else {
-            // tslint:disable: strict-boolean-expressions
-            options = options || {};
-            const date: Date = options.date || new Date();
-            this.appendLine(`${date.toLocaleTimeString()}${options.resourceName ? ' '.concat(options.resourceName) : ''}: ${value}`);
+
+        options = options ?? {};
+        const level: types.LogLevel = options.level ?? 'info';
+        const minLevelIndex: number = logLevels.indexOf(<types.LogLevel>projectConfiguration.get<string>(outputLogLevelSetting));
+        if (logLevels.indexOf(level) < (minLevelIndex >= 0 ? minLevelIndex : logLevels.indexOf('info'))) {
+            return;
         }
+
+        const prefixes: string[] = [];
+        if (projectConfiguration.get<boolean>(enableOutputTimestampsSetting)) {
+            const date: Date = options.date ?? new Date();
+            prefixes.push(date.toLocaleTimeString());
+        }
+
+        // Info is the default and most common level, so it's not worth the noise of displaying it
+        if (level !== 'info') {
+            prefixes.push(`[${level.charAt(0).toUpperCase()}${level.slice(1)}]`);
+        }
+
+        if (options.resourceName) {
+            prefixes.push(options.resourceName);
+        }
+
+        let line: string = prefixes.length > 0 ? `${prefixes.join(' ')}: ${value}` : value;
+        if (options.data !== undefined) {
+            line += ` ${stringifyData(options.data)}`;
+        }
+        this.appendLine(line);
     }
 
     public clear(): void {
@@ -62,6 +122,17 @@ class AzExtOutputChannel implements types.IAzExtOutputChannel {
 
     public dispose(): void {
         this._outputChannel.dispose();
+        if (this.logFile) {
+            this.logFile.dispose();
+        }
     }
 
 }
+
+function stringifyData(data: unknown): string {
+    try {
+        return JSON.stringify(data);
+    } catch {
+        return String(data);
+    }
+}
@@ -3,23 +3,42 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as path from 'path';
 import { parse as parseQuery, ParsedUrlQuery, stringify as stringifyQuery } from "querystring";
-import { Disposable, Event, EventEmitter, FileChangeEvent, FileStat, FileSystemError, FileSystemProvider, FileType, TextDocumentShowOptions, Uri, window } from "vscode";
+import { Disposable, Event, EventEmitter, FileChangeEvent, FileChangeType, FileStat, FileSystemError, FileSystemProvider, FileType, TextDocumentShowOptions, Uri, window } from "vscode";
 import * as types from '../index';
 import { callWithTelemetryAndErrorHandling } from "./callWithTelemetryAndErrorHandling";
 import { localize } from "./localize";
+import { parseError } from "./parseError";
+import { AzExtParentTreeItem } from "./treeDataProvider/AzExtParentTreeItem";
 import { AzExtTreeDataProvider } from "./treeDataProvider/AzExtTreeDataProvider";
 import { AzExtTreeItem } from "./treeDataProvider/AzExtTreeItem";
+import { isAzExtParentTreeItem } from "./treeDataProvider/InternalInterfaces";
 import { nonNullProp } from "./utils/nonNull";
 
 const unsupportedError: Error = new Error(localize('notSupported', 'This operation is not supported.'));
 
+interface IWatchedUri {
+    uri: Uri;
+    watchCount: number;
+    lastVersion?: string;
+}
+
 export abstract class AzExtTreeFileSystem<TItem extends AzExtTreeItem> implements FileSystemProvider {
     public abstract scheme: string;
 
+    /**
+     * If set, watched files are polled at this interval (using `statImpl`) and writes are rejected if the file changed since it was read
+     */
+    public watchIntervalMs?: number;
+
     private readonly _emitter: EventEmitter<FileChangeEvent[]> = new EventEmitter<FileChangeEvent[]>();
     private readonly _bufferedEvents: FileChangeEvent[] = [];
     private _fireSoonHandle?: NodeJS.Timer;
+    private readonly _watchedUris: Map<string, IWatchedUri> = new Map();
+    private readonly _readVersions: Map<string, string> = new Map();
+    private _pollTimer?: NodeJS.Timer;
+    private _isDisposed: boolean = false;
 
     private _tree: AzExtTreeDataProvider;
 
@@ -31,18 +50,49 @@ export abstract class AzExtTreeFileSystem<TItem extends AzExtTreeItem> implement
         return this._emitter.event;
     }
 
-    public abstract statImpl(context: types.IActionContext, item: TItem, originalUri: Uri): Promise<FileStat>;
+    public abstract statImpl(context: types.IActionContext, item: TItem, originalUri: Uri): Promise<types.AzExtFileStat>;
     public abstract readFileImpl(context: types.IActionContext, item: TItem, originalUri: Uri): Promise<Uint8Array>;
     public abstract writeFileImpl(context: types.IActionContext, item: TItem, content: Uint8Array, originalUri: Uri): Promise<void>;
     public abstract getFilePath(item: TItem): string;
+    public readDirectoryImpl?(context: types.IActionContext, item: TItem, originalUri: Uri): Promise<[string, FileType][]>;
+    public createDirectoryImpl?(context: types.IActionContext, parentItem: TItem, name: string, originalUri: Uri): Promise<void>;
+    public deleteImpl?(context: types.IActionContext, item: TItem, options: { recursive: boolean }, originalUri: Uri): Promise<void>;
+    public renameImpl?(context: types.IActionContext, item: TItem, newParentItem: TItem, newName: string, options: { overwrite: boolean }, originalUri: Uri, newUri: Uri): Promise<void>;
+
+    public getUri(item: TItem): Uri {
+        const data: types.AzExtItemUriParts = this.getUriParts(item);
+        const query: string = stringifyQuery(data.query);
+        const filePath: string = encodeURIComponent(data.filePath);
+        return Uri.parse(`${this.scheme}:///${filePath}?${query}`);
+    }
 
     public async showTextDocument(item: TItem, options?: TextDocumentShowOptions): Promise<void> {
-        await window.showTextDocument(this.getUriFromItem(item), options);
+        await window.showTextDocument(this.getUri(item), options);
     }
 
-    public watch(): Disposable {
+    public watch(uri: Uri): Disposable {
+        if (this.watchIntervalMs === undefined) {
+            return new Disposable((): void => {
+                // Since we're not actually watching "in Azure" (i.e. polling for changes), there's no need to selectively watch based on the Uri passed in here. Thus there's nothing to dispose
+            });
+        }
+
+        const key: string = uri.toString();
+        const watchedUri: IWatchedUri = this._watchedUris.get(key) ?? { uri, watchCount: 0 };
+        watchedUri.watchCount += 1;
+        this._watchedUris.set(key, watchedUri);
+        this.schedulePoll();
+
+        let disposed: boolean = false;
         return new Disposable((): void => {
-            // Since we're not actually watching "in Azure" (i.e. polling for changes), there's no need to selectively watch based on the Uri passed in here. Thus there's nothing to dispose
+            if (!disposed) {
+                disposed = true;
+                watchedUri.watchCount -= 1;
+                if (watchedUri.watchCount === 0) {
+                    this._watchedUris.delete(key);
+                    this._readVersions.delete(key);
+                }
+            }
         });
     }
 
@@ -62,34 +112,113 @@ export abstract class AzExtTreeFileSystem<TItem extends AzExtTreeItem> implement
             context.errorHandling.suppressDisplay = true;
 
             const item: TItem = await this.lookup(context, uri);
-            return await this.readFileImpl(context, item, uri);
+            // Get the version before reading so that a change made in between is detected by the next poll (or save) instead of being missed
+            const version: string | undefined = await this.getVersionIfWatching(context, item, uri);
+            const content: Uint8Array = await this.callImpl(uri, this.readFileImpl(context, item, uri));
+            this.recordReadVersion(uri, version);
+            return content;
             // tslint:disable-next-line: strict-boolean-expressions
         }) || Buffer.from('');
     }
 
     public async writeFile(uri: Uri, content: Uint8Array): Promise<void> {
         await callWithTelemetryAndErrorHandling('writeFile', async (context) => {
+            // Rethrow so that VS Code fails the save (and displays the error) instead of treating it as successful
+            context.errorHandling.rethrow = true;
+            context.errorHandling.suppressDisplay = true;
+
             const item: TItem = await this.lookup(context, uri);
-            await this.writeFileImpl(context, item, content, uri);
+
+            const readVersion: string | undefined = this._readVersions.get(uri.toString());
+            if (this.watchIntervalMs !== undefined && readVersion !== undefined) {
+                const remoteVersion: string = getVersion(await this.callImpl(uri, this.statImpl(context, item, uri)));
+                if (remoteVersion !== readVersion) {
+                    context.telemetry.properties.conflict = 'true';
+                    throw getConflictError(uri);
+                }
+            }
+
+            try {
+                await this.writeFileImpl(context, item, content, uri);
+            } catch (error) {
+                // A failed precondition (e.g. an etag that doesn't match) means someone else changed the file
+                throw parseError(error).statusCode === 412 ? getConflictError(uri) : toFileSystemError(error, uri);
+            }
+            this.recordReadVersion(uri, await this.getVersionIfWatching(context, item, uri));
             await item.refresh();
         });
     }
 
-    public async readDirectory(_uri: Uri): Promise<[string, FileType][]> {
-        throw unsupportedError;
+    public async readDirectory(uri: Uri): Promise<[string, FileType][]> {
+        return <[string, FileType][]>await callWithTelemetryAndErrorHandling('readDirectory', async (context) => {
+            context.telemetry.suppressIfSuccessful = true;
+            context.errorHandling.rethrow = true;
+            context.errorHandling.suppressDisplay = true;
+
+            if (!this.readDirectoryImpl) {
+                throw unsupportedError;
+            }
+
+            const item: TItem = await this.lookup(context, uri);
+            return await this.callImpl(uri, this.readDirectoryImpl(context, item, uri));
+        });
     }
 
-    public async createDirectory(_uri: Uri): Promise<void> {
-        throw unsupportedError;
+    public async createDirectory(uri: Uri): Promise<void> {
+        await callWithTelemetryAndErrorHandling('createDirectory', async (context) => {
+            context.errorHandling.rethrow = true;
+            context.errorHandling.suppressDisplay = true;
+
+            if (!this.createDirectoryImpl) {
+                throw unsupportedError;
+            }
+
+            const [parentItem, name] = await this.lookupParent(context, uri);
+            await this.callImpl(uri, this.createDirectoryImpl(context, parentItem, name, uri));
+            await parentItem.refresh();
+            this.fireSoonUris({ type: FileChangeType.Created, uri });
+        });
     }
 
     // tslint:disable-next-line: no-reserved-keywords
-    public async delete(_uri: Uri): Promise<void> {
-        throw unsupportedError;
+    public async delete(uri: Uri, options: { recursive: boolean }): Promise<void> {
+        await callWithTelemetryAndErrorHandling('delete', async (context) => {
+            context.errorHandling.rethrow = true;
+            context.errorHandling.suppressDisplay = true;
+            context.telemetry.properties.recursive = String(options.recursive);
+
+            if (!this.deleteImpl) {
+                throw unsupportedError;
+            }
+
+            const item: TItem = await this.lookup(context, uri);
+            await this.callImpl(uri, this.deleteImpl(context, item, options, uri));
+            this.forgetReadVersions(uri);
+            await refreshParent(item);
+            this.fireSoonUris({ type: FileChangeType.Deleted, uri });
+        });
     }
 
-    public async rename(_uri: Uri): Promise<void> {
-        throw unsupportedError;
+    public async rename(oldUri: Uri, newUri: Uri, options: { overwrite: boolean }): Promise<void> {
+        await callWithTelemetryAndErrorHandling('rename', async (context) => {
+            context.errorHandling.rethrow = true;
+            context.errorHandling.suppressDisplay = true;
+            context.telemetry.properties.overwrite = String(options.overwrite);
+
+            if (!this.renameImpl) {
+                throw unsupportedError;
+            }
+
+            const item: TItem = await this.lookup(context, oldUri);
+            const [newParentItem, newName] = await this.lookupParent(context, newUri);
+            await this.callImpl(oldUri, this.renameImpl(context, item, newParentItem, newName, options, oldUri, newUri));
+            this.forgetReadVersions(oldUri);
+            await refreshParent(item);
+            if (<AzExtTreeItem>newParentItem !== item.parent) {
+                await newParentItem.refresh();
+            }
+            this.fireSoonUris({ type: FileChangeType.Deleted, uri: oldUri }, { type: FileChangeType.Created, uri: newUri });
+        });
     }
 
     /**
@@ -98,24 +227,27 @@ export abstract class AzExtTreeFileSystem<TItem extends AzExtTreeItem> implement
      */
     // tslint:disable-next-line: no-reserved-keywords
     public fireSoon(...events: types.AzExtItemChangeEvent<TItem>[]): void {
-        this._bufferedEvents.push(...events.map(e => {
+        this.fireSoonUris(...events.map(e => {
             return {
                 type: e.type,
-                uri: this.getUriFromItem(e.item)
+                uri: this.getUri(e.item)
             };
         }));
+    }
 
+    public dispose(): void {
+        this._isDisposed = true;
+        if (this._pollTimer) {
+            clearTimeout(this._pollTimer);
+            this._pollTimer = undefined;
+        }
         if (this._fireSoonHandle) {
             clearTimeout(this._fireSoonHandle);
+            this._fireSoonHandle = undefined;
         }
-
-        this._fireSoonHandle = setTimeout(
-            () => {
-                this._emitter.fire(this._bufferedEvents);
-                this._bufferedEvents.length = 0; // clear buffer
-            },
-            5
-        );
+        this._watchedUris.clear();
+        this._readVersions.clear();
+        this._emitter.dispose();
     }
 
     protected getUriParts(item: TItem): types.AzExtItemUriParts {
@@ -131,22 +263,159 @@ export abstract class AzExtTreeFileSystem<TItem extends AzExtTreeItem> implement
         return await this._tree.findTreeItem(query.id, context);
     }
 
-    private getUriFromItem(item: TItem): Uri {
-        const data: types.AzExtItemUriParts = this.getUriParts(item);
-        const query: string = stringifyQuery(data.query);
-        const filePath: string = encodeURIComponent(data.filePath);
-        return Uri.parse(`${this.scheme}:///${filePath}?${query}`);
+    private fireSoonUris(...events: FileChangeEvent[]): void {
+        this._bufferedEvents.push(...events);
+
+        if (this._fireSoonHandle) {
+            clearTimeout(this._fireSoonHandle);
+        }
+
+        this._fireSoonHandle = setTimeout(
+            () => {
+                this._emitter.fire(this._bufferedEvents);
+                this._bufferedEvents.length = 0; // clear buffer
+            },
+            5
+        );
+    }
+
+    private schedulePoll(): void {
+        if (!this._isDisposed && this._pollTimer === undefined && this._watchedUris.size > 0 && this.watchIntervalMs !== undefined) {
+            this._pollTimer = setTimeout(
+                async () => {
+                    try {
+                        await this.pollWatchedUris();
+                    } finally {
+                        this._pollTimer = undefined;
+                        this.schedulePoll();
+                    }
+                },
+                this.watchIntervalMs
+            );
+        }
+    }
+
+    /**
+     * Fires a change event for every watched uri whose version differs from the last time it was read or polled
+     */
+    private async pollWatchedUris(): Promise<void> {
+        const changedUris: Uri[] = [];
+        for (const watchedUri of Array.from(this._watchedUris.values())) {
+            await callWithTelemetryAndErrorHandling('watch', async (context) => {
+                // A failed poll is retried next interval, so there's no need to bother the user
+                context.telemetry.suppressIfSuccessful = true;
+                context.errorHandling.suppressDisplay = true;
+
+                const item: TItem = await this.lookup(context, watchedUri.uri);
+                const version: string = getVersion(await this.statImpl(context, item, watchedUri.uri));
+                const previousVersion: string | undefined = watchedUri.lastVersion ?? this._readVersions.get(watchedUri.uri.toString());
+                watchedUri.lastVersion = version;
+                if (previousVersion !== undefined && previousVersion !== version) {
+                    changedUris.push(watchedUri.uri);
+                }
+            });
+        }
+
+        if (changedUris.length > 0) {
+            this.fireSoonUris(...changedUris.map(uri => { return { type: FileChangeType.Changed, uri }; }));
+        }
+    }
+
+    private async getVersionIfWatching(context: types.IActionContext, item: TItem, uri: Uri): Promise<string | undefined> {
+        return this.watchIntervalMs !== undefined ? getVersion(await this.callImpl(uri, this.statImpl(context, item, uri))) : undefined;
+    }
+
+    private recordReadVersion(uri: Uri, version: string | undefined): void {
+        if (version !== undefined) {
+            this._readVersions.set(uri.toString(), version);
+            const watchedUri: IWatchedUri | undefined = this._watchedUris.get(uri.toString());
+            if (watchedUri) {
+                watchedUri.lastVersion = version;
+            }
+        }
+    }
+
+    /**
+     * Removes the read versions of a deleted or renamed item and anything in it
+     */
+    private forgetReadVersions(uri: Uri): void {
+        const uriPath: string = trimSlashes(uri.path);
+        for (const key of Array.from(this._readVersions.keys())) {
+            const keyPath: string = trimSlashes(Uri.parse(key).path);
+            if (keyPath === uriPath || keyPath.startsWith(`${uriPath}/`)) {
+                this._readVersions.delete(key);
+            }
+        }
     }
 
     private async lookup(context: types.IActionContext, uri: Uri): Promise<TItem> {
         const item: TItem | undefined = await this.findItem(context, this.getQueryFromUri(uri));
-        if (!item) {
+        const descendant: TItem | undefined = item && await this.findDescendant(context, item, uri);
+        if (!descendant) {
             context.telemetry.suppressAll = true;
             context.errorHandling.rethrow = true;
             context.errorHandling.suppressDisplay = true;
             throw FileSystemError.FileNotFound(uri);
         } else {
+            return descendant;
+        }
+    }
+
+    /**
+     * Used for items that don't exist yet, e.g. the target of `createDirectory`
+     */
+    private async lookupParent(context: types.IActionContext, uri: Uri): Promise<[TItem, string]> {
+        const parentUri: Uri = uri.with({ path: path.posix.dirname(uri.path) });
+        return [await this.lookup(context, parentUri), path.posix.basename(uri.path)];
+    }
+
+    /**
+     * VS Code builds the uris of files in a directory by appending to the path of the directory's uri (and keeping the directory's query),
+     * so any path past the item identified by the query is resolved one child at a time
+     */
+    private async findDescendant(context: types.IActionContext, item: TItem, uri: Uri): Promise<TItem | undefined> {
+        const itemPath: string = trimSlashes(this.getUriParts(item).filePath);
+        const uriPath: string = trimSlashes(uri.path);
+        if (uriPath === itemPath) {
             return item;
+        } else if (!uriPath.startsWith(`${itemPath}/`)) {
+            return undefined;
+        }
+
+        let descendant: TItem = item;
+        for (const name of uriPath.slice(itemPath.length + 1).split('/')) {
+            if (!isAzExtParentTreeItem(descendant)) {
+                return undefined;
+            }
+
+            const parent: AzExtParentTreeItem = <AzExtParentTreeItem><unknown>descendant;
+            let child: AzExtTreeItem | undefined = this.findChild(await parent.getCachedChildren(context), name);
+            while (!child && parent.hasMoreChildrenImpl()) {
+                await parent.loadMoreChildren(context);
+                child = this.findChild(await parent.getCachedChildren(context), name);
+            }
+
+            if (!child) {
+                return undefined;
+            }
+            descendant = <TItem>child;
+        }
+
+        return descendant;
+    }
+
+    private findChild(children: AzExtTreeItem[], name: string): AzExtTreeItem | undefined {
+        return children.find(c => path.posix.basename(this.getFilePath(<TItem>c)) === name);
+    }
+
+    /**
+     * Errors are displayed by VS Code, which expects a `FileSystemError`
+     */
+    private async callImpl<T>(uri: Uri, task: Promise<T>): Promise<T> {
+        try {
+            return await task;
+        } catch (error) {
+            throw toFileSystemError(error, uri);
         }
     }
 
@@ -160,3 +429,45 @@ export abstract class AzExtTreeFileSystem<TItem extends AzExtTreeItem> implement
         }
     }
 }
+
+function toFileSystemError(error: unknown, uri: Uri): unknown {
+    if (error instanceof FileSystemError) {
+        return error;
+    }
+
+    const parsedError: types.IParsedError = parseError(error);
+    if (parsedError.isUserCancelledError) {
+        return error;
+    } else if (parsedError.statusCode === 404 || parsedError.category === 'not-found') {
+        return FileSystemError.FileNotFound(uri);
+    } else if (parsedError.statusCode === 409 || parsedError.statusCode === 412 || parsedError.category === 'conflict') {
+        return FileSystemError.FileExists(uri);
+    } else if (parsedError.category === 'authentication' || parsedError.category === 'authorization') {
+        return FileSystemError.NoPermissions(uri);
+    } else if (parsedError.category === 'network' || parsedError.category === 'throttled') {
+        return FileSystemError.Unavailable(uri);
+    } else {
+        return error;
+    }
+}
+
+function getConflictError(uri: Uri): FileSystemError {
+    return FileSystemError.FileExists(localize('fileConflict', 'Failed to save "{0}" because it was changed by someone else. Revert the file to get the latest content and try again.', path.posix.basename(uri.path)));
+}
+
+/**
+ * Prefers the etag since the mtime reported by some services only has a precision of seconds
+ */
+function getVersion(stat: types.AzExtFileStat): string {
+    return stat.etag ?? String(stat.mtime);
+}
+
+async function refreshParent(item: AzExtTreeItem): Promise<void> {
+    if (item.parent) {
+        await item.parent.refresh();
+    }
+}
+
+function trimSlashes(value: string): string {
+    return value.replace(/^\/+|\/+$/g, '');
+}
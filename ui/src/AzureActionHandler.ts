@@ -3,10 +3,14 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { commands, Event, Uri } from 'vscode';
-import { IActionContext } from '../index';
+import { CancellationToken, commands, Event, ProgressLocation, Uri, window } from 'vscode';
+import { IActionContext, IBulkCommandOptions } from '../index';
 import { callWithTelemetryAndErrorHandling } from './callWithTelemetryAndErrorHandling';
+import { UserCancelledError } from './errors';
 import { ext } from './extensionVariables';
+import { localize } from './localize';
+import { parseError } from './parseError';
+import { CachedTreeItem } from './treeDataProvider/AzExtParentTreeItem';
 import { AzExtTreeItem } from './treeDataProvider/AzExtTreeItem';
 
 // tslint:disable:no-any no-unsafe-any
@@ -22,7 +26,8 @@ export function registerCommand(commandId: string, callback: (context: IActionCo
         }
         return await callWithTelemetryAndErrorHandling(
             commandId,
-            (context: IActionContext) => {
+            async (context: IActionContext) => {
+                args = await Promise.all(args.map(async arg => await resolveCachedTreeItems(context, arg)));
                 if (args.length > 0) {
                     const firstArg: any = args[0];
 
@@ -39,6 +44,27 @@ export function registerCommand(commandId: string, callback: (context: IActionCo
     }));
 }
 
+export function registerBulkCommand<T extends AzExtTreeItem>(commandId: string, callback: (context: IActionContext, treeItem: T) => Promise<void>, options: IBulkCommandOptions): void {
+    registerCommand(commandId, async (context: IActionContext, node?: unknown, nodes?: unknown) => {
+        const treeItems: T[] = await getBulkTreeItems<T>(context, options, node, nodes);
+        context.telemetry.measurements.treeItemCount = treeItems.length;
+        if (treeItems.length === 0) {
+            return; // The user didn't pick anything
+        } else if (treeItems.length === 1) {
+            await callback(context, treeItems[0]);
+        } else {
+            await window.withProgress({ location: ProgressLocation.Notification, title: options.progressTitle, cancellable: true }, async (progress, cancellationToken) => {
+                let finishedCount: number = 0;
+                progress.report({ message: localize('bulkProgress', '{0}/{1}', finishedCount, treeItems.length) });
+                await runBulkOperation(commandId, context, treeItems, callback, options, cancellationToken, () => {
+                    finishedCount += 1;
+                    progress.report({ message: localize('bulkProgress', '{0}/{1}', finishedCount, treeItems.length), increment: 100 / treeItems.length });
+                });
+            });
+        }
+    });
+}
+
 export function registerEvent<T>(eventId: string, event: Event<T>, callback: (context: IActionContext, ...args: any[]) => any): void {
     ext.context.subscriptions.push(event(async (...args: any[]): Promise<any> => {
         return await callWithTelemetryAndErrorHandling(
@@ -50,6 +76,105 @@ export function registerEvent<T>(eventId: string, event: Event<T>, callback: (co
     }));
 }
 
+/**
+ * Uses the items selected in the tree if the command was run from a multi-select tree view, and otherwise prompts for them
+ */
+async function getBulkTreeItems<T extends AzExtTreeItem>(context: IActionContext, options: IBulkCommandOptions, node: unknown, nodes: unknown): Promise<T[]> {
+    let treeItems: AzExtTreeItem[];
+    if (Array.isArray(nodes) && nodes.some(n => n === node)) {
+        treeItems = nodes.filter(n => n instanceof AzExtTreeItem);
+    } else if (node instanceof AzExtTreeItem) {
+        treeItems = [node];
+    } else {
+        const pickedItems: T | T[] = <T | T[]>await options.treeDataProvider.showTreeItemPicker<T>(options.expectedContextValues, { ...context, canPickMany: true });
+        // The picker returns a single item (rather than an array) if it auto-selects the only child of a parent
+        return Array.isArray(pickedItems) ? pickedItems : [pickedItems];
+    }
+
+    // The `when` clause of a menu only applies to the item that was clicked, so other selected items might not support this command
+    const expectedContextValues: (string | RegExp)[] = Array.isArray(options.expectedContextValues) ? options.expectedContextValues : [options.expectedContextValues];
+    const supportedItems: AzExtTreeItem[] = treeItems.filter(ti => ti.matchesContextValue(expectedContextValues));
+    context.telemetry.measurements.skippedTreeItemCount = treeItems.length - supportedItems.length;
+    if (supportedItems.length === 0) {
+        throw new Error(localize('noSupportedTreeItems', 'None of the selected items support this command.'));
+    }
+    return <T[]>supportedItems;
+}
+
+/**
+ * Each item runs with its own action context (and telemetry event), since they run concurrently. Their results are combined in the command's context
+ */
+async function runBulkOperation<T extends AzExtTreeItem>(
+    commandId: string,
+    context: IActionContext,
+    treeItems: T[],
+    callback: (context: IActionContext, treeItem: T) => Promise<void>,
+    options: IBulkCommandOptions,
+    cancellationToken: CancellationToken,
+    onDidFinishItem: () => void): Promise<void> {
+
+    const errors: [T, unknown][] = [];
+    const remainingItems: T[] = treeItems.slice();
+    const maxConcurrency: number = Math.max(options.maxConcurrency ?? 5, 1);
+    const workers: Promise<void>[] = [];
+    // tslint:disable-next-line: no-increment-decrement
+    for (let i: number = 0; i < Math.min(maxConcurrency, treeItems.length); i++) {
+        workers.push((async (): Promise<void> => {
+            while (!cancellationToken.isCancellationRequested && remainingItems.length > 0) {
+                // tslint:disable-next-line: no-non-null-assertion
+                const treeItem: T = remainingItems.shift()!;
+                try {
+                    await callWithTelemetryAndErrorHandling(`${commandId}.item`, async (itemContext: IActionContext) => {
+                        // Errors are combined and displayed once all items are finished
+                        itemContext.errorHandling.rethrow = true;
+                        itemContext.errorHandling.suppressDisplay = true;
+                        itemContext.telemetry.properties.contextValue = treeItem.contextValue;
+                        await callback(itemContext, treeItem);
+                    });
+                } catch (error) {
+                    errors.push([treeItem, error]);
+                } finally {
+                    onDidFinishItem();
+                }
+            }
+        })());
+    }
+    await Promise.all(workers);
+
+    const failures: [T, unknown][] = errors.filter(([, error]) => !parseError(error).isUserCancelledError);
+    context.telemetry.measurements.succeededTreeItemCount = treeItems.length - remainingItems.length - errors.length;
+    context.telemetry.measurements.failedTreeItemCount = failures.length;
+    context.telemetry.measurements.cancelledTreeItemCount = remainingItems.length + errors.length - failures.length;
+    if (failures.length > 0) {
+        for (const [treeItem, error] of failures) {
+            ext.outputChannel.appendLog(parseError(error).message, { resourceName: treeItem.label, level: 'error' });
+        }
+
+        const details: string = failures.map(([treeItem, error]) => `${treeItem.label}: ${parseError(error).message}`).join(', ');
+        throw new Error(localize('bulkFailed', '{0} of {1} operations failed. {2}', failures.length, treeItems.length, details));
+    } else if (remainingItems.length > 0 || errors.length > 0) {
+        throw new UserCancelledError();
+    }
+}
+
+/**
+ * Items from a persisted snapshot are only placeholders, so replace them with the real items before running the command
+ */
+async function resolveCachedTreeItems(context: IActionContext, arg: any): Promise<any> {
+    if (Array.isArray(arg)) {
+        return await Promise.all(arg.map(async a => await resolveCachedTreeItems(context, a)));
+    } else if (arg instanceof CachedTreeItem) {
+        context.telemetry.properties.resolvedCachedTreeItem = 'true';
+        const treeItem: AzExtTreeItem | undefined = await arg.treeDataProvider.findTreeItem(arg.fullId, context);
+        if (!treeItem) {
+            throw new Error(localize('cachedItemNotFound', 'Failed to find "{0}". It may have been deleted since the tree was last loaded.', arg.label));
+        }
+        return treeItem;
+    } else {
+        return arg;
+    }
+}
+
 function debounceCommand(debounce: number, lastClickTime?: number): boolean {
     // tslint:disable-next-line:strict-boolean-expressions
     if (lastClickTime && lastClickTime + debounce > Date.now()) {
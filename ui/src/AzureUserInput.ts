@@ -95,10 +95,11 @@ export class AzureUserInput implements types.IAzureUserInput, types.AzureUserInp
             args.push(back);
         }
 
+        const wizardUserInput: IWizardUserInput | undefined = this._rootUserInput !== vscode.window ? this.wizardUserInput : undefined;
         // tslint:disable-next-line: no-constant-condition
         while (true) {
             // tslint:disable-next-line:no-unsafe-any
-            const result: T = await vscode.window.showWarningMessage(message, ...args);
+            const result: T = wizardUserInput?.showWarningMessage ? <T>await wizardUserInput.showWarningMessage(message, ...args) : await vscode.window.showWarningMessage(message, ...args);
             if (learnMoreLink && result === DialogResponses.learnMore) {
                 await openUrl(learnMoreLink);
             } else if (result === undefined || result === DialogResponses.cancel) {
@@ -113,7 +114,8 @@ export class AzureUserInput implements types.IAzureUserInput, types.AzureUserInp
     }
 
     public async showOpenDialog(options: vscode.OpenDialogOptions): Promise<vscode.Uri[]> {
-        const result: vscode.Uri[] | undefined = await vscode.window.showOpenDialog(options);
+        const wizardUserInput: IWizardUserInput | undefined = this._rootUserInput !== vscode.window ? this.wizardUserInput : undefined;
+        const result: vscode.Uri[] | undefined = wizardUserInput?.showOpenDialog ? await wizardUserInput.showOpenDialog(options) : await vscode.window.showOpenDialog(options);
 
         if (result === undefined || result.length === 0) {
             throw new UserCancelledError();
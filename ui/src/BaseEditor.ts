@@ -16,6 +16,8 @@ import { createTemporaryFile } from './utils/createTemporaryFile';
 // tslint:disable-next-line:no-unsafe-any
 export abstract class BaseEditor<ContextT> implements vscode.Disposable {
     private fileMap: { [key: string]: [vscode.TextDocument, ContextT] } = {};
+    private versionMap: { [key: string]: string | undefined } = {};
+    private remoteFiles: Map<string, vscode.Disposable> = new Map();
     private ignoreSave: boolean = false;
 
     constructor(private readonly showSavePromptKey: string) {
@@ -28,6 +30,12 @@ export abstract class BaseEditor<ContextT> implements vscode.Disposable {
     public abstract getSaveConfirmationText(context: ContextT): Promise<string>;
     public abstract getSize(context: ContextT): Promise<number>;
 
+    /**
+     * Implement this to detect if the remote data changed since it was downloaded (e.g. return the etag)
+     * NOTE: This is called again after `updateData`, so a remote change made in between those two calls won't be detected
+     */
+    public getVersion?(context: ContextT): Promise<string | undefined>;
+
     public async showEditor(context: ContextT, sizeLimit?: number /* in Megabytes */): Promise<void> {
         const fileName: string = await this.getFilename(context);
         const resourceName: string = await this.getResourceName(context);
@@ -43,6 +51,8 @@ export abstract class BaseEditor<ContextT> implements vscode.Disposable {
         const localFilePath: string = await createTemporaryFile(fileName);
         const document: vscode.TextDocument = await vscode.workspace.openTextDocument(localFilePath);
         this.fileMap[localFilePath] = [document, context];
+        // Get the version first so that a change in between is treated as a conflict rather than missed
+        this.versionMap[localFilePath] = await this.getRemoteVersion(context);
         const data: string = await this.getData(context);
         const textEditor: vscode.TextEditor = await vscode.window.showTextDocument(document);
         await this.updateEditor(data, textEditor);
@@ -52,12 +62,15 @@ export abstract class BaseEditor<ContextT> implements vscode.Disposable {
         const filePath: string | undefined = Object.keys(this.fileMap).find((fsPath: string) => path.relative(doc.fsPath, fsPath) === '');
         if (filePath) {
             const [textDocument, context]: [vscode.TextDocument, ContextT] = this.fileMap[filePath];
-            await this.updateRemote(context, textDocument);
+            await this.updateRemote(filePath, context, textDocument);
         }
     }
 
     public async dispose(): Promise<void> {
-        Object.keys(this.fileMap).forEach(async (key: string) => await fse.remove(path.dirname(key)));
+        for (const closeListener of Array.from(this.remoteFiles.values())) {
+            closeListener.dispose();
+        }
+        Object.keys(this.fileMap).concat(Array.from(this.remoteFiles.keys())).forEach(async (key: string) => await fse.remove(path.dirname(key)));
     }
 
     public async onDidSaveTextDocument(actionContext: IActionContext, globalState: vscode.Memento, doc: vscode.TextDocument): Promise<void> {
@@ -78,7 +91,7 @@ export abstract class BaseEditor<ContextT> implements vscode.Disposable {
                     throw new UserCancelledError();
                 }
             }
-            await this.updateRemote(context, doc);
+            await this.updateRemote(filePath, context, doc);
         }
     }
 
@@ -87,11 +100,28 @@ export abstract class BaseEditor<ContextT> implements vscode.Disposable {
         ext.outputChannel.show(true);
     }
 
-    private async updateRemote(context: ContextT, doc: vscode.TextDocument): Promise<void> {
+    private async updateRemote(localFilePath: string, context: ContextT, doc: vscode.TextDocument): Promise<void> {
         const filename: string = await this.getFilename(context);
         const resourceName: string = await this.getResourceName(context);
+        const version: string | undefined = this.versionMap[localFilePath];
+        if (version !== undefined) {
+            // Get the version before the data so that a change in between is treated as a conflict on the next save rather than missed
+            const remoteVersion: string | undefined = await this.getRemoteVersion(context);
+            if (remoteVersion !== version) {
+                const remoteData: string = await this.getData(context);
+                const result: vscode.MessageItem = await this.resolveConflict(filename, remoteData, doc);
+                if (result === DialogResponses.takeRemote) {
+                    this.versionMap[localFilePath] = remoteVersion;
+                    await this.updateEditor(remoteData, await vscode.window.showTextDocument(doc));
+                    this.appendLineToOutput(localize('tookRemote', 'Replaced local changes to "{0}" with the remote version.', filename), { resourceName: resourceName });
+                    return;
+                }
+            }
+        }
+
         this.appendLineToOutput(localize('updating', 'Updating "{0}" ...', filename), {resourceName: resourceName});
         const updatedData: string = await this.updateData(context, doc.getText());
+        this.versionMap[localFilePath] = await this.getRemoteVersion(context);
         this.appendLineToOutput(localize('done', 'Updated "{0}".', filename), {resourceName: resourceName});
         if (doc.isClosed !== true) {
             const visibleDocument: vscode.TextEditor | undefined = vscode.window.visibleTextEditors.find((ed) => ed.document === doc);
@@ -101,6 +131,42 @@ export abstract class BaseEditor<ContextT> implements vscode.Disposable {
         }
     }
 
+    /**
+     * Shows a diff between the remote and local data and asks the user which one to keep
+     */
+    private async resolveConflict(filename: string, remoteData: string, doc: vscode.TextDocument): Promise<vscode.MessageItem> {
+        const remoteFilePath: string = await createTemporaryFile(filename);
+        // Keep the remote file until the diff is closed, so that the user can still compare the versions after choosing
+        this.remoteFiles.set(remoteFilePath, vscode.workspace.onDidCloseTextDocument(async (closedDoc: vscode.TextDocument) => {
+            if (path.relative(closedDoc.uri.fsPath, remoteFilePath) === '') {
+                await this.removeRemoteFile(remoteFilePath);
+            }
+        }));
+        await fse.writeFile(remoteFilePath, remoteData);
+        const title: string = localize('conflictDiffTitle', '{0} (Remote) ↔ {0} (Local)', filename);
+        await vscode.commands.executeCommand('vscode.diff', vscode.Uri.file(remoteFilePath), doc.uri, title);
+
+        const message: string = localize('remoteChanged', '"{0}" was changed by someone else since it was downloaded. Overwrite the remote changes or take the remote version?', filename);
+        const result: vscode.MessageItem | undefined = await ext.ui.showWarningMessage(message, { modal: true }, DialogResponses.overwrite, DialogResponses.takeRemote, DialogResponses.cancel);
+        if (result === undefined || result === DialogResponses.cancel) {
+            throw new UserCancelledError();
+        }
+        return result;
+    }
+
+    private async removeRemoteFile(remoteFilePath: string): Promise<void> {
+        const closeListener: vscode.Disposable | undefined = this.remoteFiles.get(remoteFilePath);
+        if (closeListener) {
+            closeListener.dispose();
+            this.remoteFiles.delete(remoteFilePath);
+            await fse.remove(path.dirname(remoteFilePath));
+        }
+    }
+
+    private async getRemoteVersion(context: ContextT): Promise<string | undefined> {
+        return this.getVersion ? await this.getVersion(context) : undefined;
+    }
+
     private async updateEditor(data: string, textEditor?: vscode.TextEditor): Promise<void> {
         if (!!textEditor) {
             await BaseEditor.writeToEditor(textEditor, data);
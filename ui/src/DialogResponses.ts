@@ -17,5 +17,7 @@ export namespace DialogResponses {
     export const upload: MessageItem = { title: localize('upload', "Upload") };
     export const alwaysUpload: MessageItem = { title: localize('alwaysUpload', "Always upload") };
     export const dontUpload: MessageItem = { title: localize('dontUpload', "Don't upload"), isCloseAffordance: true };
+    export const overwrite: MessageItem = { title: localize('overwrite', 'Overwrite') };
+    export const takeRemote: MessageItem = { title: localize('takeRemote', 'Take remote') };
     export const reportAnIssue: MessageItem = { title: localize('reportAnIssue', "Report an issue") };
 }
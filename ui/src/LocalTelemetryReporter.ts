@@ -0,0 +1,78 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { window, workspace } from 'vscode';
+import { IInternalTelemetryReporter } from './createTelemetryReporter';
+import { ext } from './extensionVariables';
+import { localize } from './localize';
+
+export const enableLocalTelemetryLogSetting: string = 'enableLocalTelemetryLog';
+const defaultMaxLogSize: number = 5 * 1024 * 1024;
+
+/**
+ * Sends telemetry to the inner reporter and, if enabled by the user, also appends each event as a line of JSON to a file in the extension's log directory
+ */
+export class LocalTelemetryReporter implements IInternalTelemetryReporter {
+    private _queue: Promise<void> = Promise.resolve();
+
+    constructor(private _innerReporter: IInternalTelemetryReporter, private _logPath: string, public readonly extensionPrefix: string, private _maxLogSize: number = defaultMaxLogSize) { }
+
+    public get logFilePath(): string {
+        return path.join(this._logPath, 'telemetry.jsonl');
+    }
+
+    public get backupLogFilePath(): string {
+        return path.join(this._logPath, 'telemetry.1.jsonl');
+    }
+
+    public sendTelemetryErrorEvent(eventName: string, properties?: { [key: string]: string | undefined; }, measurements?: { [key: string]: number | undefined; }, errorProps?: string[]): void {
+        this._innerReporter.sendTelemetryErrorEvent(eventName, properties, measurements, errorProps);
+
+        if (workspace.getConfiguration(this.extensionPrefix).get<boolean>(enableLocalTelemetryLogSetting)) {
+            const line: string = JSON.stringify({ timestamp: new Date().toISOString(), eventName, properties, measurements });
+            // Queue writes so that events are logged in order and rotation doesn't happen in the middle of a write
+            this._queue = this._queue.then(async () => await this.appendLine(line));
+        }
+    }
+
+    /**
+     * Waits for any pending events to be written to the log
+     */
+    public async flush(): Promise<void> {
+        await this._queue;
+    }
+
+    private async appendLine(line: string): Promise<void> {
+        try {
+            await fse.ensureDir(this._logPath);
+            if (await fse.pathExists(this.logFilePath) && (await fse.stat(this.logFilePath)).size > this._maxLogSize) {
+                await fse.move(this.logFilePath, this.backupLogFilePath, { overwrite: true });
+            }
+            await fse.appendFile(this.logFilePath, line + '\n');
+        } catch (error) {
+            // Never let logging block telemetry or the extension itself
+            console.error(`ERROR (LocalTelemetryReporter): ${error}`);
+        }
+    }
+}
+
+/**
+ * Opens the local telemetry log in an editor. Meant to be registered as a command by the extension
+ */
+export async function openLocalTelemetryLog(): Promise<void> {
+    const reporter: IInternalTelemetryReporter = ext._internalReporter;
+    if (!(reporter instanceof LocalTelemetryReporter)) {
+        throw new Error(localize('noLocalTelemetryReporter', 'The local telemetry log is not available.'));
+    }
+
+    await reporter.flush();
+    if (!await fse.pathExists(reporter.logFilePath)) {
+        throw new Error(localize('noLocalTelemetryLog', 'No telemetry has been logged yet. Enable the setting "{0}.{1}" to log telemetry locally.', reporter.extensionPrefix, enableLocalTelemetryLogSetting));
+    }
+
+    await window.showTextDocument(await workspace.openTextDocument(reporter.logFilePath));
+}
@@ -0,0 +1,115 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Writes text to log files in a folder, starting a new file for each session or once the current file gets too big.
+ * Only the most recent files are kept
+ */
+export class RotatingLogFile {
+    public readonly folder: string;
+    private readonly _baseName: string;
+    private readonly _maxFiles: number;
+    private readonly _maxFileSize: number;
+    private _currentFile: string | undefined;
+    private _fileCount: number = 0;
+    private _pendingText: string[] = [];
+    private _queue: Promise<void> = Promise.resolve();
+
+    constructor(folder: string, baseName: string, maxFiles: number, maxFileSize: number) {
+        this.folder = folder;
+        this._baseName = baseName.replace(/[^a-z0-9]+/gi, '-');
+        this._maxFiles = Math.max(maxFiles, 1);
+        this._maxFileSize = maxFileSize;
+    }
+
+    public get currentFile(): string | undefined {
+        return this._currentFile;
+    }
+
+    public append(text: string): void {
+        this._pendingText.push(text);
+        // Queue writes so that text is logged in order and rotation doesn't happen in the middle of a write
+        this._queue = this._queue.then(async () => await this.writePendingText());
+    }
+
+    /**
+     * Waits for any pending text to be written
+     */
+    public async flush(): Promise<void> {
+        await this._queue;
+    }
+
+    /**
+     * Synchronously writes any pending text, since the extension host might exit before queued writes finish
+     */
+    public dispose(): void {
+        if (this._currentFile && this._pendingText.length > 0) {
+            try {
+                fse.appendFileSync(this._currentFile, this._pendingText.join(''));
+            } catch (error) {
+                console.error(`ERROR (RotatingLogFile): ${error}`);
+            }
+            this._pendingText = [];
+        }
+    }
+
+    /**
+     * Returns the last lines of the current file, or undefined if nothing has been written
+     */
+    public async readTail(maxLines: number): Promise<string | undefined> {
+        await this.flush();
+        if (!this._currentFile || !await fse.pathExists(this._currentFile)) {
+            return undefined;
+        }
+
+        const lines: string[] = (await fse.readFile(this._currentFile, 'utf8')).split(/\r?\n/);
+        if (lines[lines.length - 1] === '') {
+            lines.pop();
+        }
+        return lines.slice(-maxLines).join(os.EOL);
+    }
+
+    private async writePendingText(): Promise<void> {
+        if (this._pendingText.length === 0) {
+            return; // already written by `dispose`
+        }
+
+        try {
+            if (!this._currentFile || (await fse.pathExists(this._currentFile) && (await fse.stat(this._currentFile)).size > this._maxFileSize)) {
+                await this.startNewFile();
+            }
+
+            // Take the text right before writing it synchronously, so that `dispose` never writes text out of order
+            // tslint:disable-next-line: no-non-null-assertion
+            const text: string = this._pendingText.shift()!;
+            // tslint:disable-next-line: no-non-null-assertion
+            fse.appendFileSync(this._currentFile!, text);
+        } catch (error) {
+            // Never let logging to disk block the extension itself
+            console.error(`ERROR (RotatingLogFile): ${error}`);
+        }
+    }
+
+    private async startNewFile(): Promise<void> {
+        await fse.ensureDir(this.folder);
+        this._fileCount += 1;
+        // Use a sortable timestamp so that the oldest files are easy to find
+        const timestamp: string = new Date().toISOString().replace(/[:.]/g, '-');
+        this._currentFile = path.join(this.folder, `${this._baseName}-${timestamp}-${this._fileCount}.log`);
+
+        // Match the whole name so that a channel never deletes the files of another channel whose name starts the same way
+        const fileNameRegExp: RegExp = new RegExp(`^${this._baseName}-\\d{4}-\\d{2}-\\d{2}T\\d{2}-\\d{2}-\\d{2}-\\d{3}Z-\\d+\\.log$`, 'i');
+        const existingFiles: string[] = (await fse.readdir(this.folder))
+            .filter(f => fileNameRegExp.test(f))
+            .sort();
+        for (const file of existingFiles.slice(0, Math.max(existingFiles.length - this._maxFiles + 1, 0))) {
+            await fse.remove(path.join(this.folder, file));
+        }
+    }
+}
@@ -3,11 +3,14 @@
 *  Licensed under the MIT License. See License.txt in the project root for license information.
 *--------------------------------------------------------------------------------------------*/
 
-import * as escape from 'escape-string-regexp';
+import { Disposable } from 'vscode';
 import { IParsedError } from "../index";
 import { parseError } from "./parseError";
+import { maskValues, registerSecretValue } from './secretRegistry';
 
 export async function callWithMaskHandling<T>(callback: () => Promise<T>, valueToMask: string): Promise<T> {
+    // Also mask the value anywhere else it might show up (e.g. the output channel) while the callback is running
+    const secret: Disposable = registerSecretValue(valueToMask);
     try {
         return await callback();
     } catch (error) {
@@ -17,13 +20,8 @@ export async function callWithMaskHandling<T>(callback: () => Promise<T>, valueT
             throw error;
         }
 
-        const valuesToMask: string[] = [valueToMask, encodeURIComponent(valueToMask)];
-
-        let maskedMessage: string = parsedError.message;
-        for (const value of valuesToMask) {
-            maskedMessage = value ? maskedMessage.replace(new RegExp(escape(value), 'g'), '***') : maskedMessage;
-        }
-
-        throw new Error(maskedMessage);
+        throw new Error(maskValues(parsedError.message, [valueToMask]));
+    } finally {
+        secret.dispose();
     }
 }
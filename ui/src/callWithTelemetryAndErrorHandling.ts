@@ -10,9 +10,18 @@ import { ext } from './extensionVariables';
 import { localize } from './localize';
 import { parseError } from './parseError';
 import { reportAnIssue } from './reportAnIssue';
+import { maskSecretValues } from './secretRegistry';
+import { redactTelemetryProperties } from './telemetryRedaction';
+import { delay } from './utils/delay';
 import { limitLines } from './utils/textStrings';
 
 const maxStackLines: number = 3;
+const defaultRetryPolicy: Required<types.IRetryPolicy> = {
+    maxAttempts: 3,
+    initialDelayMs: 1000,
+    maxDelayMs: 30 * 1000,
+    retryableCategories: ['throttled', 'network', 'server']
+};
 
 function initContext(): [number, types.IActionContext] {
     const start: number = Date.now();
@@ -58,7 +67,7 @@ export async function callWithTelemetryAndErrorHandling<T>(callbackId: string, c
     const [start, context] = initContext();
 
     try {
-        return await Promise.resolve(callback(context));
+        return await callWithRetry(context, callbackId, callback);
     } catch (error) {
         handleError(context, callbackId, error);
         return undefined;
@@ -67,6 +76,52 @@ export async function callWithTelemetryAndErrorHandling<T>(callbackId: string, c
     }
 }
 
+async function callWithRetry<T>(context: types.IActionContext, callbackId: string, callback: (context: types.IActionContext) => T | PromiseLike<T>): Promise<T> {
+    for (let attempt: number = 1; ; attempt += 1) {
+        try {
+            return await Promise.resolve(callback(context));
+        } catch (error) {
+            const retryDelayMs: number | undefined = getRetryDelayMs(context, error, attempt);
+            if (retryDelayMs === undefined) {
+                throw error;
+            }
+
+            ext.outputChannel.appendLog(localize('retrying', 'Attempt {0} of "{1}" failed with error "{2}". Retrying in {3} seconds...', attempt, callbackId, parseError(error).message, Math.ceil(retryDelayMs / 1000)), { level: 'warning' });
+            await delay(retryDelayMs);
+        } finally {
+            if (context.retryPolicy) {
+                context.telemetry.measurements.attempts = attempt;
+            }
+        }
+    }
+}
+
+/**
+ * Returns the number of milliseconds to wait before the next attempt, or undefined if the action should not be retried
+ */
+function getRetryDelayMs(context: types.IActionContext, error: unknown, attempt: number): number | undefined {
+    if (!context.retryPolicy) {
+        return undefined;
+    }
+
+    const maxAttempts: number = context.retryPolicy.maxAttempts ?? defaultRetryPolicy.maxAttempts;
+    const initialDelayMs: number = context.retryPolicy.initialDelayMs ?? defaultRetryPolicy.initialDelayMs;
+    const maxDelayMs: number = context.retryPolicy.maxDelayMs ?? defaultRetryPolicy.maxDelayMs;
+    const retryableCategories: types.ErrorCategory[] = context.retryPolicy.retryableCategories ?? defaultRetryPolicy.retryableCategories;
+
+    const errorData: types.IParsedError = parseError(error);
+    if (attempt >= maxAttempts || !errorData.category || !retryableCategories.some(c => c === errorData.category)) {
+        return undefined;
+    }
+
+    if (errorData.retryAfterMs !== undefined) {
+        // Retrying any sooner than the server asked would just be throttled again, so give up instead if it's longer than maxDelayMs
+        return errorData.retryAfterMs <= maxDelayMs ? errorData.retryAfterMs : undefined;
+    } else {
+        return Math.min(initialDelayMs * Math.pow(2, attempt - 1), maxDelayMs);
+    }
+}
+
 const errorHandlers: { [id: number]: types.ErrorHandler } = {};
 const telemetryHandlers: { [id: number]: types.TelemetryHandler } = {};
 
@@ -110,6 +165,10 @@ function handleError(context: types.IActionContext, callbackId: string, error: u
         context.telemetry.properties.error = errorData.errorType;
         context.telemetry.properties.errorMessage = errorData.message;
         context.telemetry.properties.stack = errorData.stack ? limitLines(errorData.stack, maxStackLines) : undefined;
+        context.telemetry.properties.errorCategory = errorData.category;
+        context.telemetry.properties.statusCode = errorData.statusCode !== undefined ? String(errorData.statusCode) : undefined;
+        context.telemetry.properties.requestId = errorData.requestId;
+        context.telemetry.properties.correlationId = errorData.correlationId;
         if (context.telemetry.suppressIfSuccessful || context.telemetry.suppressAll) {
             context.telemetry.properties.suppressTelemetry = 'true';
         }
@@ -117,12 +176,17 @@ function handleError(context: types.IActionContext, callbackId: string, error: u
 
     if (!context.errorHandling.suppressDisplay) {
         // Always append the error to the output channel, but only 'show' the output channel for multiline errors
-        ext.outputChannel.appendLog(localize('outputError', 'Error: {0}', errorData.message));
+        ext.outputChannel.appendLog(errorData.message, { level: 'error' });
+        if (errorData.requestId) {
+            ext.outputChannel.appendLog(localize('outputRequestId', 'Request ID: {0}', errorData.requestId), { level: 'error' });
+        }
 
         let message: string;
         if (errorData.message.includes('\n')) {
             ext.outputChannel.show();
             message = localize('multilineError', 'An error has occured. Check output window for more details.');
+        } else if (errorData.requestId) {
+            message = localize('errorWithRequestId', '{0} (Request ID: {1})', errorData.message, errorData.requestId);
         } else {
             message = errorData.message;
         }
@@ -161,6 +225,12 @@ function handleTelemetry(context: types.IActionContext, callbackId: string, star
         context.telemetry.measurements.duration = (end - start) / 1000;
 
         const errorProps: string[] = Object.keys(context.telemetry.properties).filter(key => /(error|stack|exception)/i.test(key));
+        redactTelemetryProperties(context.telemetry.properties, errorProps);
+        for (const [key, value] of Object.entries(context.telemetry.properties)) {
+            if (value) {
+                context.telemetry.properties[key] = maskSecretValues(value);
+            }
+        }
         // Note: The id of the extension is automatically prepended to the given callbackId (e.g. "vscode-cosmosdb/")
         ext._internalReporter.sendTelemetryErrorEvent(handlerContext.callbackId, context.telemetry.properties, context.telemetry.measurements, errorProps);
     }
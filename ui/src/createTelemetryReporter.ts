@@ -8,6 +8,7 @@ import * as vscode from 'vscode';
 import TelemetryReporter from 'vscode-extension-telemetry';
 import { DebugReporter } from './DebugReporter';
 import { getPackageInfo } from './getPackageInfo';
+import { LocalTelemetryReporter } from './LocalTelemetryReporter';
 
 // tslint:disable-next-line:strict-boolean-expressions
 const debugTelemetryEnabled: boolean = !/^(false|0)?$/i.test(process.env.DEBUGTELEMETRY || '');
@@ -18,7 +19,7 @@ export interface IInternalTelemetryReporter {
     sendTelemetryErrorEvent(eventName: string, properties?: { [key: string]: string | undefined }, measurements?: { [key: string]: number | undefined }, errorProps?: string[]): void;
 }
 
-export function createTelemetryReporter(ctx: vscode.ExtensionContext): IInternalTelemetryReporter {
+export function createTelemetryReporter(ctx: vscode.ExtensionContext, extensionPrefix: string | undefined): IInternalTelemetryReporter {
     const { extensionName, extensionVersion, aiKey } = getPackageInfo(ctx);
 
     let newReporter: IInternalTelemetryReporter;
@@ -32,6 +33,11 @@ export function createTelemetryReporter(ctx: vscode.ExtensionContext): IInternal
         newReporter = reporter;
     }
 
+    // The local log is enabled with a setting, which can't be found without the prefix
+    if (extensionPrefix !== undefined) {
+        newReporter = new LocalTelemetryReporter(newReporter, ctx.logPath, extensionPrefix);
+    }
+
     // Send an event with some general info
     newReporter.sendTelemetryErrorEvent('info', { isActivationEvent: 'true', product: vscode.env.appName, language: vscode.env.language }, undefined, []);
 
@@ -50,5 +50,5 @@ export function registerUIExtensionVariables(extVars: UIExtensionVariables): voi
     assert(extVars.outputChannel, 'registerUIExtensionVariables: Missing outputChannel');
     assert(extVars.ui, 'registerUIExtensionVariables: Missing ui');
 
-    ext = Object.assign(extVars, { _internalReporter: createTelemetryReporter(extVars.context) });
+    ext = Object.assign(extVars, { _internalReporter: createTelemetryReporter(extVars.context, extVars.outputChannel.extensionPrefix) });
 }
@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-export { createAzExtOutputChannel } from './AzExtOutputChannel';
+export { createAzExtOutputChannel, revealOutputChannelLogs } from './AzExtOutputChannel';
 export * from './AzExtTreeFileSystem';
 export * from './AzureActionHandler';
 export * from './AzureUserInput';
@@ -15,10 +15,14 @@ export * from './createAzureClient';
 export * from './DialogResponses';
 export * from './errors';
 export * from './extensionUserAgent';
+export { openLocalTelemetryLog } from './LocalTelemetryReporter';
 export { registerUIExtensionVariables } from './extensionVariables';
 export * from './openInPortal';
 export * from './openReadOnlyContent';
 export * from './parseError';
+export { maskSecretValues, registerSecretValue } from './secretRegistry';
+export { registerTelemetryRedactionRule } from './telemetryRedaction';
+export * from './treeDataProvider/AzExtPagedParentTreeItem';
 export * from './treeDataProvider/AzExtParentTreeItem';
 export * from './treeDataProvider/AzExtTreeDataProvider';
 export * from './treeDataProvider/AzExtTreeItem';
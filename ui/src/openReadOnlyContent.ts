@@ -4,7 +4,10 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { isNumber } from "util";
-import { CancellationToken, Event, EventEmitter, TextDocumentContentProvider, TextDocumentShowOptions, Uri, window, workspace, WorkspaceConfiguration } from "vscode";
+import { CancellationToken, commands, Event, EventEmitter, Position, Range, TextDocumentChangeEvent, TextDocumentContentProvider, TextDocumentShowOptions, TextEditor, Uri, window, workspace, WorkspaceConfiguration } from "vscode";
+import { IActionContext, ILiveContentOptions } from "../index";
+import { registerCommand } from "./AzureActionHandler";
+import { callWithTelemetryAndErrorHandling } from "./callWithTelemetryAndErrorHandling";
 import { ext } from "./extensionVariables";
 import { nonNullValue } from "./utils/nonNull";
 import { randomUtils } from "./utils/randomUtils";
@@ -29,57 +32,138 @@ export async function openReadOnlyJson(node: { label: string, fullId: string },
     await openReadOnlyContent(node, content, '.json');
 }
 
-export async function openReadOnlyContent(node: { label: string, fullId: string }, content: string, fileExtension: string, options?: TextDocumentShowOptions): Promise<ReadOnlyContent> {
+export async function openReadOnlyContent(node: { label: string, fullId: string }, content: string, fileExtension: string, options?: TextDocumentShowOptions, liveOptions?: ILiveContentOptions): Promise<ReadOnlyContent> {
+    return await getContentProvider().openReadOnlyContent(node, content, fileExtension, options, liveOptions);
+}
+
+export function registerLiveContentCommands(pauseCommandId: string, resumeCommandId: string): void {
+    registerCommand(pauseCommandId, (_context: IActionContext, uri?: Uri) => {
+        const content: ReadOnlyContent | undefined = getContentProvider().getLiveContent(uri);
+        if (content) {
+            content.pause();
+        }
+    });
+
+    registerCommand(resumeCommandId, (_context: IActionContext, uri?: Uri) => {
+        const content: ReadOnlyContent | undefined = getContentProvider().getLiveContent(uri);
+        if (content) {
+            content.resume();
+        }
+    });
+}
+
+function getContentProvider(): ReadOnlyContentProvider {
     if (!contentProvider) {
         contentProvider = new ReadOnlyContentProvider();
-        ext.context.subscriptions.push(workspace.registerTextDocumentContentProvider(scheme, contentProvider));
+        ext.context.subscriptions.push(
+            workspace.registerTextDocumentContentProvider(scheme, contentProvider),
+            workspace.onDidChangeTextDocument(async (e: TextDocumentChangeEvent) => await nonNullValue(contentProvider).onDidChangeTextDocument(e)),
+            window.onDidChangeActiveTextEditor(async () => await nonNullValue(contentProvider).updateLiveContentContext())
+        );
     }
 
-    return await contentProvider.openReadOnlyContent(node, content, fileExtension, options);
+    return contentProvider;
 }
 
 export class ReadOnlyContent {
     private _uri: Uri;
     private _emitter: EventEmitter<Uri>;
     private _content: string;
+    private _liveOptions: ILiveContentOptions | undefined;
+    private _isPaused: boolean = false;
+    private _onDidChangePaused: (() => void) | undefined;
 
-    constructor(uri: Uri, emitter: EventEmitter<Uri>, content: string) {
+    constructor(uri: Uri, emitter: EventEmitter<Uri>, content: string, liveOptions?: ILiveContentOptions, onDidChangePaused?: () => void) {
         this._uri = uri;
         this._emitter = emitter;
-        this._content = content;
+        this._liveOptions = liveOptions;
+        this._onDidChangePaused = onDidChangePaused;
+        this._content = this.trimContent(content);
     }
 
     public get content(): string {
         return this._content;
     }
 
+    public get isLive(): boolean {
+        return !!this._liveOptions;
+    }
+
+    public get isPaused(): boolean {
+        return this._isPaused;
+    }
+
+    public get follow(): boolean {
+        return !!this._liveOptions && this._liveOptions.follow !== false && !this._isPaused;
+    }
+
     public async append(content: string): Promise<void> {
-        this._content += content;
-        this._emitter.fire(this._uri);
+        this._content = this.trimContent(this._content + content);
+        this.fireChanged();
     }
 
     public clear(): void {
         this._content = '';
-        this._emitter.fire(this._uri);
+        this.fireChanged();
+    }
+
+    public pause(): void {
+        this.setPaused(true);
+    }
+
+    public resume(): void {
+        this.setPaused(false);
+        this.fireChanged();
+    }
+
+    private setPaused(isPaused: boolean): void {
+        if (this._isPaused !== isPaused) {
+            this._isPaused = isPaused;
+            if (this._onDidChangePaused) {
+                // The callback handles its own errors, so there's no need to wait for it
+                this._onDidChangePaused();
+            }
+        }
+    }
+
+    private fireChanged(): void {
+        // While paused, content is still collected (and trimmed) but the document isn't updated so that it's easier to read
+        if (!this._isPaused) {
+            this._emitter.fire(this._uri);
+        }
+    }
+
+    private trimContent(content: string): string {
+        if (this._liveOptions) {
+            if (this._liveOptions.maxBytes !== undefined) {
+                content = trimBytes(content, this._liveOptions.maxBytes);
+            }
+            if (this._liveOptions.maxLines !== undefined) {
+                content = trimLines(content, this._liveOptions.maxLines);
+            }
+        }
+        return content;
     }
 }
 
 class ReadOnlyContentProvider implements TextDocumentContentProvider {
     private _onDidChangeEmitter: EventEmitter<Uri> = new EventEmitter<Uri>();
     private _contentMap: Map<string, ReadOnlyContent> = new Map<string, ReadOnlyContent>();
+    private _liveContentState: string | undefined;
 
     public get onDidChange(): Event<Uri> {
         return this._onDidChangeEmitter.event;
     }
 
-    public async openReadOnlyContent(node: { label: string, fullId: string }, content: string, fileExtension: string, options?: TextDocumentShowOptions): Promise<ReadOnlyContent> {
+    public async openReadOnlyContent(node: { label: string, fullId: string }, content: string, fileExtension: string, options?: TextDocumentShowOptions, liveOptions?: ILiveContentOptions): Promise<ReadOnlyContent> {
         const idHash: string = randomUtils.getPseudononymousStringHash(node.fullId, 'hex');
         // in a URI, # means fragment and ? means query and is parsed in that way, so they should be removed to not break the path
         const uri: Uri = Uri.parse(`${scheme}:///${idHash}/${node.label.replace(/\#|\?/g, '_')}${fileExtension}`);
-        const readOnlyContent: ReadOnlyContent = new ReadOnlyContent(uri, this._onDidChangeEmitter, content);
+        const readOnlyContent: ReadOnlyContent = new ReadOnlyContent(uri, this._onDidChangeEmitter, content, liveOptions, async (): Promise<void> => await this.updateLiveContentContext());
         this._contentMap.set(uri.toString(), readOnlyContent);
         await window.showTextDocument(uri, options);
         this._onDidChangeEmitter.fire(uri);
+        await this.updateLiveContentContext();
         return readOnlyContent;
     }
 
@@ -87,4 +171,87 @@ class ReadOnlyContentProvider implements TextDocumentContentProvider {
         const readOnlyContent: ReadOnlyContent = nonNullValue(this._contentMap.get(uri.toString()), 'ReadOnlyContentProvider._contentMap.get');
         return readOnlyContent.content;
     }
+
+    /**
+     * @param uri Passed to commands run from the editor title. Defaults to the active editor
+     */
+    public getLiveContent(uri: Uri | undefined): ReadOnlyContent | undefined {
+        if (!uri && window.activeTextEditor) {
+            uri = window.activeTextEditor.document.uri;
+        }
+
+        const content: ReadOnlyContent | undefined = uri && this._contentMap.get(uri.toString());
+        return content && content.isLive ? content : undefined;
+    }
+
+    public async onDidChangeTextDocument(e: TextDocumentChangeEvent): Promise<void> {
+        const content: ReadOnlyContent | undefined = this._contentMap.get(e.document.uri.toString());
+        if (content && content.follow) {
+            // Reveal the end once VS Code has actually updated the document, rather than when the content was appended
+            const lastLine: number = e.document.lineCount - 1;
+            const editors: TextEditor[] = window.visibleTextEditors.filter(editor => editor.document === e.document);
+            for (const editor of editors) {
+                editor.revealRange(new Range(new Position(lastLine, 0), new Position(lastLine, 0)));
+            }
+        }
+    }
+
+    /**
+     * Used in the `when` clause of the editor title buttons registered by the extension
+     * Only sets the context if the state changed, since this is called every time the active editor changes
+     * Never throws, since it's called from event handlers that don't wait for it
+     */
+    public async updateLiveContentContext(): Promise<void> {
+        const extensionPrefix: string | undefined = ext.outputChannel.extensionPrefix;
+        if (extensionPrefix === undefined) {
+            return;
+        }
+
+        const content: ReadOnlyContent | undefined = this.getLiveContent(undefined);
+        const state: string = content ? (content.isPaused ? 'paused' : 'live') : '';
+        if (state === this._liveContentState) {
+            return;
+        }
+
+        await callWithTelemetryAndErrorHandling('updateLiveContentContext', async (context: IActionContext) => {
+            context.telemetry.suppressIfSuccessful = true;
+            context.errorHandling.suppressDisplay = true;
+
+            await commands.executeCommand('setContext', `${extensionPrefix}.liveContentState`, state);
+            this._liveContentState = state;
+        });
+    }
+}
+
+function trimBytes(content: string, maxBytes: number): string {
+    const buffer: Buffer = Buffer.from(content);
+    if (buffer.length <= maxBytes) {
+        return content;
+    }
+
+    let start: number = buffer.length - maxBytes;
+    // Skip UTF-8 continuation bytes (0b10xxxxxx) so that the content doesn't start with a partial character
+    // tslint:disable-next-line: no-bitwise
+    while (start < buffer.length && (buffer[start] & 0xc0) === 0x80) {
+        start += 1;
+    }
+
+    content = buffer.slice(start).toString();
+    // Drop the partial first line
+    const newLineIndex: number = content.indexOf('\n');
+    return newLineIndex === -1 ? content : content.slice(newLineIndex + 1);
+}
+
+function trimLines(content: string, maxLines: number): string {
+    // A trailing new line doesn't start another line
+    let index: number = content.endsWith('\n') ? content.length - 1 : content.length;
+    // tslint:disable-next-line: no-increment-decrement
+    for (let i: number = 0; i < maxLines; i++) {
+        index = index > 0 ? content.lastIndexOf('\n', index - 1) : -1;
+        if (index === -1) {
+            return content;
+        }
+    }
+
+    return content.slice(index + 1);
 }
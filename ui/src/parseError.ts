@@ -4,8 +4,9 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as htmlToText from 'html-to-text';
-import { IParsedError } from '../index';
+import { ErrorCategory, IParsedError } from '../index';
 import { localize } from './localize';
+import { maskSecretValues } from './secretRegistry';
 
 // tslint:disable:no-unsafe-any
 // tslint:disable:no-any
@@ -13,6 +14,7 @@ export function parseError(error: any): IParsedError {
     let errorType: string = '';
     let message: string = '';
     let stack: string | undefined;
+    let responseInfo: IResponseInfo = {};
 
     if (typeof (error) === 'object' && error !== null) {
         if (error.constructor !== Object) {
@@ -20,6 +22,7 @@ export function parseError(error: any): IParsedError {
         }
 
         stack = getCallstack(error);
+        responseInfo = getResponseInfo(error);
         errorType = getCode(error, errorType);
 
         // See https://github.com/Microsoft/vscode-azureappservice/issues/419 for an example error that requires these 'unpack's
@@ -74,16 +77,133 @@ export function parseError(error: any): IParsedError {
     // https://github.com/Azure/azure-sdk-for-js/issues/6927
     message = parseIfXml(message);
 
+    message = maskSecretValues(message);
+
+    // NOTE: Intentionally not using 'error instanceof UserCancelledError' because that doesn't work if multiple versions of the UI package are used in one extension
+    // See https://github.com/Microsoft/vscode-azuretools/issues/51 for more info
+    const isUserCancelledError: boolean = errorType === 'UserCancelledError';
+
     return {
         errorType: errorType,
         message: message,
         stack: stack,
-        // NOTE: Intentionally not using 'error instanceof UserCancelledError' because that doesn't work if multiple versions of the UI package are used in one extension
-        // See https://github.com/Microsoft/vscode-azuretools/issues/51 for more info
-        isUserCancelledError: errorType === 'UserCancelledError'
+        isUserCancelledError,
+        category: isUserCancelledError ? undefined : getCategory(errorType, responseInfo.statusCode, message),
+        statusCode: responseInfo.statusCode,
+        requestId: responseInfo.requestId,
+        correlationId: responseInfo.correlationId,
+        retryAfterMs: responseInfo.retryAfterMs
     };
 }
 
+interface IResponseInfo {
+    statusCode?: number;
+    requestId?: string;
+    correlationId?: string;
+    retryAfterMs?: number;
+}
+
+/**
+ * Searches the error and the same nested fields that are unpacked above for the status code and ARM request headers of the failed request
+ */
+function getResponseInfo(error: any): IResponseInfo {
+    const info: IResponseInfo = {};
+    const maxObjects: number = 20;
+    const objects: any[] = [error];
+    for (let i: number = 0; i < objects.length && i < maxObjects; i += 1) {
+        const o: any = objects[i];
+        if (info.statusCode === undefined) {
+            info.statusCode = getStatusCode(o);
+        }
+        info.requestId = info.requestId || getHeader(o, 'x-ms-request-id') || (typeof o.requestId === 'string' ? o.requestId : undefined);
+        info.correlationId = info.correlationId || getHeader(o, 'x-ms-correlation-request-id');
+        if (info.retryAfterMs === undefined) {
+            info.retryAfterMs = getRetryAfterMs(o);
+        }
+
+        for (const prop of ['value', '_value', 'error', 'response', 'body']) {
+            const field: any = o[prop];
+            if (typeof field === 'object' && field !== null) {
+                objects.push(field);
+            }
+        }
+    }
+
+    return info;
+}
+
+function getStatusCode(o: any): number | undefined {
+    for (const value of [o.statusCode, o.status]) {
+        const code: number = typeof value === 'string' ? parseInt(value, 10) : value;
+        if (typeof code === 'number' && code >= 100 && code < 600) {
+            return code;
+        }
+    }
+
+    return undefined;
+}
+
+function getRetryAfterMs(o: any): number | undefined {
+    const retryAfterMs: number = Number(getHeader(o, 'retry-after-ms') || getHeader(o, 'x-ms-retry-after-ms'));
+    if (retryAfterMs >= 0) {
+        return retryAfterMs;
+    }
+
+    // "Retry-After" is either a number of seconds or an HTTP date
+    const retryAfter: string | undefined = getHeader(o, 'retry-after');
+    if (retryAfter) {
+        const seconds: number = Number(retryAfter);
+        const ms: number = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+        if (!isNaN(ms)) {
+            return Math.max(ms, 0);
+        }
+    }
+
+    return undefined;
+}
+
+function getHeader(o: any, name: string): string | undefined {
+    const headers: any = o.headers;
+    let value: any;
+    if (typeof headers === 'object' && headers !== null) {
+        if (typeof headers.get === 'function') {
+            // HttpHeaders from ms-rest-js
+            value = headers.get(name);
+        } else {
+            const key: string | undefined = Object.keys(headers).find(k => k.toLowerCase() === name);
+            value = key && headers[key];
+        }
+    }
+
+    return typeof value === 'string' && value ? value : undefined;
+}
+
+interface ICategoryMatcher {
+    category: ErrorCategory;
+    statusCodes: number[];
+    errorType: RegExp;
+    message?: RegExp;
+}
+
+// Order matters, the first match wins (e.g. a 409 caused by a quota should be 'quota' rather than 'conflict')
+const categoryMatchers: ICategoryMatcher[] = [
+    { category: 'quota', statusCodes: [], errorType: /quota/i, message: /\bquota\b/i },
+    { category: 'authentication', statusCodes: [401], errorType: /^(AuthenticationFailed|InvalidAuthenticationToken.*|ExpiredAuthenticationToken|Unauthorized)$/i, message: /bad credentials/i },
+    { category: 'authorization', statusCodes: [403], errorType: /AuthorizationFailed$|^(Forbidden|AccessDenied|NoPermissions|EACCES|EPERM)$/i },
+    { category: 'network', statusCodes: [], errorType: /^(ECONNRESET|ECONNREFUSED|ECONNABORTED|ETIMEDOUT|ESOCKETTIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE|ENETUNREACH|EHOSTUNREACH|REQUEST_SEND_ERROR)$/i },
+    { category: 'throttled', statusCodes: [429], errorType: /^(TooManyRequests|Throttled|RequestThrottled|ServerBusy)$/i },
+    { category: 'not-found', statusCodes: [404], errorType: /NotFound$|^ENOENT$/i },
+    { category: 'conflict', statusCodes: [409, 412], errorType: /Conflict|AlreadyExists|PreconditionFailed|^(ResourceExists|FileExists|EEXIST)$/i },
+    { category: 'validation', statusCodes: [400, 422], errorType: /^(Invalid|BadRequest|MissingRequired)|Validation/i },
+    { category: 'server', statusCodes: [500, 501, 502, 503, 504], errorType: /^(InternalServerError|ServiceUnavailable|BadGateway|GatewayTimeout)$/i }
+];
+
+function getCategory(errorType: string, statusCode: number | undefined, message: string): ErrorCategory | undefined {
+    const code: number = statusCode !== undefined ? statusCode : parseInt(errorType, 10);
+    const matcher: ICategoryMatcher | undefined = categoryMatchers.find(m => m.statusCodes.indexOf(code) >= 0 || m.errorType.test(errorType) || (!!m.message && m.message.test(message)));
+    return matcher ? matcher.category : undefined;
+}
+
 function convertCodeToError(errorType: string | undefined): string | undefined {
     if (errorType) {
         const code: number = parseInt(errorType, 10);
@@ -220,7 +340,7 @@ function getCallstack(error: { stack?: string }): string | undefined {
         })
         .filter(l => !!l);
 
-    return minifiedLines.length > 0 ? minifiedLines.join('\n') : undefined;
+    return minifiedLines.length > 0 ? maskSecretValues(minifiedLines.join('\n')) : undefined;
 }
 
 /**
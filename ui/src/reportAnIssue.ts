@@ -6,8 +6,11 @@
 import * as os from 'os';
 import * as vscode from 'vscode';
 import { IParsedError } from '../index';
+import { getOutputLogExcerpt } from './AzExtOutputChannel';
 import { getPackageInfo } from "./getPackageInfo";
 import { localize } from './localize';
+import { maskSecretValues } from './secretRegistry';
+import { redactTelemetryValue } from './telemetryRedaction';
 import { openUrl } from './utils/openUrl';
 
 // Some browsers don't have very long URLs
@@ -15,6 +18,8 @@ import { openUrl } from './utils/openUrl';
 // see https://stackoverflow.com/questions/417142/what-is-the-maximum-length-of-a-url-in-different-browsers
 export const maxUrlLength: number = 2000;
 
+const maxOutputLogLines: number = 20;
+
 /**
  * Used to open the browser to the "New Issue" page on GitHub with relevant context pre-filled in the issue body
  */
@@ -45,7 +50,8 @@ Repro steps:
 
 Action: ${actionId}
 Error type: ${parsedError.errorType}
-Error Message: ${parsedError.message}
+Error Message: ${parsedError.message}${parsedError.requestId ? `
+Request ID: ${parsedError.requestId}` : ''}
 
 Version: ${extensionVersion}
 OS: ${process.platform}
@@ -54,13 +60,17 @@ Product: ${vscode.env.appName}
 Product Version: ${vscode.version}
 Language: ${vscode.env.language}`;
 
-    // Add stack and any custom issue properties as individual details
-    const details: { [key: string]: string | undefined } = Object.assign({}, stack ? { 'Call Stack': stack } : {}, issueProperties); // Don't localize call stack
+    // Add stack, recent output, and any custom issue properties as individual details
+    // The issue is public, so the output log is redacted the same way as telemetry
+    const outputLog: string | undefined = await getOutputLogExcerpt(maxOutputLogLines);
+    const details: { [key: string]: string | undefined } = Object.assign({}, stack ? { 'Call Stack': stack } : {}, outputLog ? { 'Output Log': redactTelemetryValue(outputLog) } : {}, issueProperties); // Don't localize call stack or output log
     for (const propName of Object.getOwnPropertyNames(details)) {
         const value: string | undefined = details[propName];
         body += createBodyDetail(propName, String(value));
     }
 
+    body = maskSecretValues(body);
+
     const simpleLink: string = createNewIssueLinkFromBody(body);
     if (simpleLink.length <= maxUrlLength) {
         return simpleLink;
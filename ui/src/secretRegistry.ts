@@ -0,0 +1,44 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as escape from 'escape-string-regexp';
+import { Disposable } from 'vscode';
+
+const secrets: { [id: number]: string } = {};
+let secretCount: number = 0;
+
+export function registerSecretValue(value: string): Disposable {
+    secretCount += 1;
+    const id: number = secretCount;
+    secrets[id] = value;
+    return {
+        dispose: (): void => {
+            delete secrets[id];
+        }
+    };
+}
+
+export function maskSecretValues(value: string): string {
+    return maskValues(value, Object.values(secrets));
+}
+
+/**
+ * Masks each value (and its URL-encoded variant) in the given string
+ */
+export function maskValues(value: string, valuesToMask: string[]): string {
+    const variants: string[] = [];
+    for (const valueToMask of valuesToMask) {
+        if (valueToMask) {
+            variants.push(valueToMask, encodeURIComponent(valueToMask));
+        }
+    }
+
+    // Mask longer values first in case one secret contains another
+    variants.sort((a, b) => b.length - a.length);
+    for (const variant of variants) {
+        value = value.replace(new RegExp(escape(variant), 'g'), '***');
+    }
+    return value;
+}
@@ -0,0 +1,73 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as escape from 'escape-string-regexp';
+import * as os from 'os';
+import { Disposable } from 'vscode';
+import * as types from '../index';
+
+const redacted: string = '<REDACTED>';
+
+function getHomeDirRules(): types.ITelemetryRedactionRule[] {
+    const homedir: string = os.homedir();
+    if (!homedir) {
+        return [];
+    }
+
+    // Match the home directory with either type of slash, since paths are often normalized
+    const homedirPattern: string = homedir.split(/[\\\/]/).map(escape).join('[\\\\/]');
+    return [{ pattern: new RegExp(`${homedirPattern}[^\\s'"\`]*`, 'gi'), replacement: `${redacted}:path` }];
+}
+
+const builtInRules: types.ITelemetryRedactionRule[] = [
+    ...getHomeDirRules(),
+    // User names in paths from other machines, e.g. "C:\Users\name" or "/home/name"
+    { pattern: /([\\\/](?:Users|home)[\\\/])[^\\\/\s'"`]+/gi, replacement: `$1${redacted}` },
+    // Connection string secrets
+    { pattern: /\b(AccountKey|SharedAccessKey|SharedAccessSignature|Password|Pwd)=[^;\s'"`]+/gi, replacement: `$1=${redacted}` },
+    // SAS tokens
+    { pattern: /([?&]sig=)[^&\s'"`]+/gi, replacement: `$1${redacted}` },
+    // Emails, but not versions like "name@1.2.3" (the top-level domain must be letters)
+    { pattern: /\b[a-z0-9._%+-]+@(?:[a-z0-9-]+\.)+[a-z]{2,}\b/gi, replacement: `${redacted}:email` },
+    { pattern: /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, replacement: `${redacted}:guid` }
+];
+
+const customRules: { [id: number]: types.ITelemetryRedactionRule } = {};
+let ruleCount: number = 0;
+
+export function registerTelemetryRedactionRule(rule: types.ITelemetryRedactionRule): Disposable {
+    ruleCount += 1;
+    const id: number = ruleCount;
+    customRules[id] = rule;
+    return {
+        dispose: (): void => {
+            delete customRules[id];
+        }
+    };
+}
+
+export function redactTelemetryValue(value: string): string {
+    for (const rule of [...builtInRules, ...Object.values(customRules)]) {
+        try {
+            // tslint:disable-next-line: strict-boolean-expressions
+            value = value.replace(rule.pattern, rule.replacement || redacted);
+        } catch {
+            // don't block other rules
+        }
+    }
+    return value;
+}
+
+/**
+ * Redacts the given properties in place
+ */
+export function redactTelemetryProperties(properties: types.TelemetryProperties, keys: string[]): void {
+    for (const key of keys) {
+        const value: string | undefined = properties[key];
+        if (value) {
+            properties[key] = redactTelemetryValue(value);
+        }
+    }
+}
@@ -0,0 +1,56 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as types from '../../index';
+import { localize } from '../localize';
+import { AzExtParentTreeItem } from './AzExtParentTreeItem';
+import { AzExtTreeItem } from './AzExtTreeItem';
+
+export abstract class AzExtPagedParentTreeItem<TSource> extends AzExtParentTreeItem implements types.AzExtPagedParentTreeItem<TSource> {
+    //#region Properties implemented by base class
+    public pageSize?: number;
+    //#endregion
+
+    private _nextLink: string | undefined;
+    private _bufferedSources: TSource[] = [];
+
+    //#region Methods implemented by base class
+    public abstract listFirstPageImpl(context: types.IActionContext): Promise<types.IPartialList<TSource>>;
+    public abstract listNextPageImpl(nextLink: string, context: types.IActionContext): Promise<types.IPartialList<TSource>>;
+    public abstract createTreeItemsImpl(sources: TSource[], context: types.IActionContext): Promise<AzExtTreeItem[]>;
+    //#endregion
+
+    public hasMoreChildrenImpl(): boolean {
+        return !!this._nextLink || this._bufferedSources.length > 0;
+    }
+
+    public async loadMoreChildrenImpl(clearCache: boolean, context: types.IActionContext): Promise<AzExtTreeItem[]> {
+        // Otherwise "Load More..." would keep loading empty pages
+        if (this.pageSize !== undefined && !(this.pageSize >= 1)) {
+            throw new Error(localize('invalidPageSize', 'Invalid page size "{0}". The page size must be at least 1.', this.pageSize));
+        }
+
+        if (clearCache) {
+            this._nextLink = undefined;
+            this._bufferedSources = [];
+            this.addPage(await this.listFirstPageImpl(context));
+        }
+
+        // Services sometimes return empty pages with a nextLink, so keep going until there's at least one full page (or no pages left)
+        const minSources: number = this.pageSize ?? 1;
+        while (this._nextLink && this._bufferedSources.length < minSources) {
+            this.addPage(await this.listNextPageImpl(this._nextLink, context));
+        }
+
+        const sources: TSource[] = this.pageSize !== undefined ? this._bufferedSources.splice(0, this.pageSize) : this._bufferedSources.splice(0);
+        return await this.createTreeItemsImpl(sources, context);
+    }
+
+    private addPage(page: types.IPartialList<TSource>): void {
+        this._bufferedSources.push(...page);
+        // tslint:disable-next-line: strict-boolean-expressions
+        this._nextLink = page.nextLink || undefined;
+    }
+}
@@ -4,8 +4,9 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { isNullOrUndefined } from 'util';
-import { commands, TreeItemCollapsibleState } from 'vscode';
+import { commands, Memento, TreeItemCollapsibleState } from 'vscode';
 import * as types from '../../index';
+import { callWithTelemetryAndErrorHandling } from '../callWithTelemetryAndErrorHandling';
 import { NoResouceFoundError, NotImplementedError, UserCancelledError } from '../errors';
 import { ext } from '../extensionVariables';
 import { localize } from '../localize';
@@ -16,6 +17,7 @@ import { getThemedIconPath } from './IconPath';
 import { IAzExtParentTreeItemInternal, isAzExtParentTreeItem } from './InternalInterfaces';
 import { runWithLoadingNotification } from './runWithLoadingNotification';
 import { loadMoreLabel } from './treeConstants';
+import { createTreeItemSnapshot, deserializeIconPath, ITreeItemSnapshot } from './treeItemSnapshot';
 
 // tslint:disable: max-classes-per-file
 
@@ -25,6 +27,7 @@ export abstract class AzExtParentTreeItem extends AzExtTreeItem implements types
     public autoSelectInTreeItemPicker?: boolean;
     public supportsAdvancedCreation?: boolean;
     public createNewLabel?: string;
+    public childrenSnapshotPersistence?: Memento;
     //#endregion
 
     public readonly collapsibleState: TreeItemCollapsibleState | undefined = TreeItemCollapsibleState.Collapsed;
@@ -35,6 +38,7 @@ export abstract class AzExtParentTreeItem extends AzExtTreeItem implements types
     private _clearCache: boolean = true;
     private _loadMoreChildrenTask: Promise<void> | undefined;
     private _initChildrenTask: Promise<void> | undefined;
+    private _snapshotTask: Promise<void> | undefined;
 
     public async getCachedChildren(context: types.IActionContext): Promise<AzExtTreeItem[]> {
         if (this._clearCache) {
@@ -52,6 +56,32 @@ export abstract class AzExtParentTreeItem extends AzExtTreeItem implements types
         return this._creatingTreeItems;
     }
 
+    /**
+     * The children that have already been loaded, or undefined if children haven't been loaded since the cache was last cleared. Never triggers a load
+     */
+    public get loadedChildren(): AzExtTreeItem[] | undefined {
+        return this._clearCache ? undefined : this._cachedChildren;
+    }
+
+    /**
+     * The first time children are requested, returns the snapshot persisted in a previous session (if any) and starts loading the real children in the background.
+     * The tree is refreshed once they're loaded. Returns undefined in all other cases
+     */
+    public getChildrenSnapshot(context: types.IActionContext): AzExtTreeItem[] | undefined {
+        if (!this.childrenSnapshotPersistence || this._snapshotTask || !this._clearCache) {
+            return undefined;
+        }
+
+        const snapshots: ITreeItemSnapshot[] | undefined = this.childrenSnapshotPersistence.get<ITreeItemSnapshot[]>(this.snapshotKey);
+        if (!snapshots) {
+            return undefined;
+        }
+
+        context.telemetry.properties.usedSnapshot = 'true';
+        this._snapshotTask = this.loadChildrenAfterSnapshot();
+        return snapshots.map(s => new CachedTreeItem(this, s));
+    }
+
     //#region Methods implemented by base class
     public abstract loadMoreChildrenImpl(clearCache: boolean, context: types.IActionContext): Promise<AzExtTreeItem[]>;
     public abstract hasMoreChildrenImpl(): boolean;
@@ -149,6 +179,7 @@ export abstract class AzExtParentTreeItem extends AzExtTreeItem implements types
             }
             this._cachedChildren.splice(index, 0, childToAdd);
             this.treeDataProvider.refreshUIOnly(this);
+            this.saveChildrenSnapshot();
         }
     }
 
@@ -157,6 +188,7 @@ export abstract class AzExtParentTreeItem extends AzExtTreeItem implements types
         if (index !== -1) {
             this._cachedChildren.splice(index, 1);
             this.treeDataProvider.refreshUIOnly(this);
+            this.saveChildrenSnapshot();
         }
     }
 
@@ -264,11 +296,37 @@ export abstract class AzExtParentTreeItem extends AzExtTreeItem implements types
 
             const newTreeItems: AzExtTreeItem[] = await this.loadMoreChildrenImpl(this._clearCache, context);
             this._cachedChildren = this._cachedChildren.concat(newTreeItems).sort((ti1, ti2) => this.compareChildrenImpl(ti1, ti2));
+            this.saveChildrenSnapshot();
         } finally {
             this._clearCache = false;
         }
     }
 
+    /**
+     * Runs in the background after `getChildrenSnapshot` has already returned, so it needs its own action context
+     */
+    private async loadChildrenAfterSnapshot(): Promise<void> {
+        await callWithTelemetryAndErrorHandling('AzureTreeDataProvider.loadChildrenAfterSnapshot', async (context: types.IActionContext) => {
+            // Errors are displayed when the tree is refreshed, so there's no need to display them here
+            context.errorHandling.suppressDisplay = true;
+            context.telemetry.properties.contextValue = this.contextValue;
+            await this.getCachedChildren(context);
+        });
+        this.treeDataProvider.refreshUIOnly(this, true);
+    }
+
+    private get snapshotKey(): string {
+        return `AzExtParentTreeItem.snapshot.${randomUtils.getPseudononymousStringHash(this.fullId)}`;
+    }
+
+    private saveChildrenSnapshot(): void {
+        if (this.childrenSnapshotPersistence) {
+            // Invalid items have random ids and can't be restored anyways
+            const snapshots: ITreeItemSnapshot[] = this._cachedChildren.filter(c => !(c instanceof InvalidTreeItem)).map(createTreeItemSnapshot);
+            this.childrenSnapshotPersistence.update(this.snapshotKey, snapshots);
+        }
+    }
+
     private async getQuickPicks(expectedContextValues: (string | RegExp)[], context: types.ITreeItemPickerContext & Partial<types.ICreateChildImplContext>): Promise<types.IAzureQuickPickItem<GetTreeItemFunction>[]> {
         let children: AzExtTreeItem[] = await this.getCachedChildren(context);
         children = children.filter((ti: AzExtTreeItem) => ti.includeInTreePicker(expectedContextValues));
@@ -387,6 +445,41 @@ export class InvalidTreeItem extends AzExtParentTreeItem implements types.Invali
     }
 }
 
+/**
+ * Displayed in place of a real child until the children have been loaded. Commands run on this item are redirected to the real item by `registerCommand`
+ * It has its own context value so that the extension's menus and tree item pickers don't treat it like the real item
+ */
+export class CachedTreeItem extends AzExtParentTreeItem {
+    public static readonly contextValue: string = 'azureextensionui.cachedTreeItem';
+    public readonly contextValue: string = CachedTreeItem.contextValue;
+    public readonly collapsibleState: TreeItemCollapsibleState | undefined;
+    public readonly label: string;
+    public readonly description: string;
+
+    constructor(parent: AzExtParentTreeItem, snapshot: ITreeItemSnapshot) {
+        super(parent);
+        this.id = snapshot.fullId;
+        this.label = snapshot.label;
+        this.iconPath = deserializeIconPath(snapshot.iconPath);
+        this.collapsibleState = snapshot.isCollapsible ? TreeItemCollapsibleState.Collapsed : TreeItemCollapsibleState.None;
+        this.description = snapshot.description ? localize('cachedDescription', '{0} (cached)', snapshot.description) : localize('cached', '(cached)');
+    }
+
+    public async loadMoreChildrenImpl(): Promise<AzExtTreeItem[]> {
+        // The real item's children will be displayed once the parent is refreshed
+        return [];
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public isAncestorOfImpl(): boolean {
+        // never display cached items in tree picker
+        return false;
+    }
+}
+
 class AutoSelectError extends Error {
     public readonly data: GetTreeItemFunction;
     constructor(data: GetTreeItemFunction) {
@@ -3,32 +3,48 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { CancellationToken, Event, EventEmitter, TreeItem } from 'vscode';
+import * as escape from 'escape-string-regexp';
+import { CancellationToken, Disposable, Event, EventEmitter, TreeItem, TreeView } from 'vscode';
 import * as types from '../../index';
 import { callWithTelemetryAndErrorHandling } from '../callWithTelemetryAndErrorHandling';
 import { NoResouceFoundError, UserCancelledError } from '../errors';
+import { ext } from '../extensionVariables';
 import { localize } from '../localize';
 import { parseError } from '../parseError';
 import { AzExtParentTreeItem, InvalidTreeItem } from './AzExtParentTreeItem';
+import { AzExtTreeDragAndDropController } from './AzExtTreeDragAndDropController';
 import { AzExtTreeItem } from './AzExtTreeItem';
 import { GenericTreeItem } from './GenericTreeItem';
 import { getThemedIconPath } from './IconPath';
 import { IAzExtTreeDataProviderInternal, isAzExtParentTreeItem } from './InternalInterfaces';
 import { runWithLoadingNotification } from './runWithLoadingNotification';
 import { loadMoreLabel } from './treeConstants';
+import { TreeItemPoller } from './TreeItemPoller';
+
+// Refreshes requested within this window are combined into as few change events as possible
+const refreshCoalesceMs: number = 50;
 
 export class AzExtTreeDataProvider implements IAzExtTreeDataProviderInternal, types.AzExtTreeDataProvider {
     public _onTreeItemCreateEmitter: EventEmitter<AzExtTreeItem> = new EventEmitter<AzExtTreeItem>();
+    public readonly dragAndDropController: types.IAzExtTreeDragAndDropController;
     private _onDidChangeTreeDataEmitter: EventEmitter<AzExtTreeItem> = new EventEmitter<AzExtTreeItem>();
 
     private readonly _loadMoreCommandId: string;
     private readonly _rootTreeItem: AzExtParentTreeItem;
     private readonly _findTreeItemTasks: Map<string, Promise<types.AzExtTreeItem | undefined>> = new Map();
+    private _filter: types.ITreeFilter | undefined;
+    private _filterRegExp: RegExp | undefined;
+    private _pendingRefreshItems: Set<AzExtTreeItem> = new Set();
+    private _pendingRootRefresh: boolean = false;
+    private _refreshTimer: NodeJS.Timer | undefined;
+    private _pollers: Map<AzExtTreeItem, TreeItemPoller> = new Map();
+    private _collapsedPollItems: Set<AzExtTreeItem> = new Set();
 
     constructor(rootTreeItem: AzExtParentTreeItem, loadMoreCommandId: string) {
         this._loadMoreCommandId = loadMoreCommandId;
         this._rootTreeItem = rootTreeItem;
         rootTreeItem.treeDataProvider = <IAzExtTreeDataProviderInternal>this;
+        this.dragAndDropController = new AzExtTreeDragAndDropController(rootTreeItem);
     }
 
     public get onDidChangeTreeData(): Event<AzExtTreeItem> {
@@ -39,7 +55,15 @@ export class AzExtTreeDataProvider implements IAzExtTreeDataProviderInternal, ty
         return this._onTreeItemCreateEmitter.event;
     }
 
+    public get filter(): types.ITreeFilter | undefined {
+        return this._filter;
+    }
+
     public getTreeItem(treeItem: AzExtTreeItem): TreeItem {
+        if (treeItem.transitionalState !== undefined) {
+            this.startPolling(treeItem);
+        }
+
         return {
             label: treeItem.label,
             description: treeItem.effectiveDescription,
@@ -72,8 +96,11 @@ export class AzExtTreeDataProvider implements IAzExtTreeDataProviderInternal, ty
 
                 context.telemetry.properties.contextValue = treeItem.contextValue;
 
-                const children: AzExtTreeItem[] = [...treeItem.creatingTreeItems, ...await treeItem.getCachedChildren(context)];
-                const hasMoreChildren: boolean = treeItem.hasMoreChildrenImpl();
+                const snapshot: AzExtTreeItem[] | undefined = treeItem.getChildrenSnapshot(context);
+                // tslint:disable-next-line: strict-boolean-expressions
+                const cachedChildren: AzExtTreeItem[] = snapshot || await treeItem.getCachedChildren(context);
+                const children: AzExtTreeItem[] = [...treeItem.creatingTreeItems, ...this.applyFilter(treeItem, cachedChildren)];
+                const hasMoreChildren: boolean = !snapshot && treeItem.hasMoreChildrenImpl();
                 context.telemetry.properties.hasMoreChildren = String(hasMoreChildren);
 
                 const result: AzExtTreeItem[] = [];
@@ -98,6 +125,15 @@ export class AzExtTreeDataProvider implements IAzExtTreeDataProviderInternal, ty
                     result.push(loadMoreTI);
                 }
 
+                if (this._filter && treeItem === this._rootTreeItem) {
+                    context.telemetry.properties.isFiltered = 'true';
+                    result.unshift(new GenericTreeItem(treeItem, {
+                        label: localize('filteredBy', 'Filtered by "{0}"', this._filter.pattern),
+                        iconPath: getThemedIconPath('filter'),
+                        contextValue: 'azureextensionui.filter'
+                    }));
+                }
+
                 context.telemetry.measurements.childCount = result.length;
                 return result;
             });
@@ -109,6 +145,42 @@ export class AzExtTreeDataProvider implements IAzExtTreeDataProviderInternal, ty
         }
     }
 
+    public registerTreeView(treeView: TreeView<AzExtTreeItem>): Disposable {
+        return Disposable.from(
+            treeView.onDidCollapseElement(e => {
+                // Items under a collapsed element aren't visible, so there's no point in polling them
+                for (const poller of Array.from(this._pollers.values())) {
+                    if (isAncestorOf(e.element, poller.treeItem)) {
+                        this._collapsedPollItems.add(poller.treeItem);
+                        poller.stop();
+                    }
+                }
+            }),
+            treeView.onDidExpandElement(e => {
+                for (const treeItem of Array.from(this._collapsedPollItems)) {
+                    if (isAncestorOf(e.element, treeItem)) {
+                        this._collapsedPollItems.delete(treeItem);
+                        if (treeItem.transitionalState !== undefined) {
+                            this.startPolling(treeItem);
+                        }
+                    }
+                }
+            })
+        );
+    }
+
+    public dispose(): void {
+        for (const poller of Array.from(this._pollers.values())) {
+            poller.stop();
+        }
+        this._collapsedPollItems.clear();
+
+        if (this._refreshTimer) {
+            clearTimeout(this._refreshTimer);
+            this._refreshTimer = undefined;
+        }
+    }
+
     public async refresh(treeItem?: AzExtTreeItem): Promise<void> {
         // tslint:disable-next-line: strict-boolean-expressions
         treeItem = treeItem || this._rootTreeItem;
@@ -117,17 +189,71 @@ export class AzExtTreeDataProvider implements IAzExtTreeDataProviderInternal, ty
             await treeItem.refreshImpl();
         }
 
-        if (isAzExtParentTreeItem(treeItem)) {
+        const isParent: boolean = isAzExtParentTreeItem(treeItem);
+        if (isParent) {
             (<AzExtParentTreeItem>treeItem).clearCache();
         }
 
-        this.refreshUIOnly(treeItem);
+        this.refreshUIOnly(treeItem, isParent);
     }
 
-    public refreshUIOnly(_treeItem: AzExtTreeItem | undefined): void {
-        // Pass undefined as temporary workaround for https://github.com/microsoft/vscode/issues/71698
-        this._onDidChangeTreeDataEmitter.fire(undefined);
-        // this._onDidChangeTreeDataEmitter.fire(treeItem === this._rootTreeItem ? undefined : treeItem);
+    public refreshUIOnly(treeItem: AzExtTreeItem | undefined, childrenReplaced?: boolean): void {
+        // Firing for an item whose children were replaced by new objects with the same ids fails, so refresh the whole tree instead
+        // as a temporary workaround for https://github.com/microsoft/vscode/issues/71698
+        if (!treeItem || treeItem === this._rootTreeItem || childrenReplaced) {
+            this._pendingRootRefresh = true;
+        } else {
+            this._pendingRefreshItems.add(treeItem);
+        }
+
+        if (!this._refreshTimer) {
+            this._refreshTimer = setTimeout(() => this.firePendingRefreshes(), refreshCoalesceMs);
+        }
+    }
+
+    public setFilter(filter: types.ITreeFilter | undefined): void {
+        if (filter && filter.pattern) {
+            this._filter = filter;
+            // Match anywhere in the label, with '*' as a wildcard
+            this._filterRegExp = new RegExp(filter.pattern.split('*').map(escape).join('.*'), 'i');
+        } else {
+            this._filter = undefined;
+            this._filterRegExp = undefined;
+        }
+
+        this.refreshUIOnly(undefined);
+    }
+
+    public async showFilter(context: types.IShowTreeFilterContext, treeItem?: AzExtParentTreeItem): Promise<void> {
+        // tslint:disable-next-line: strict-boolean-expressions
+        treeItem = treeItem || this._rootTreeItem;
+
+        const pattern: string = await ext.ui.showInputBox({
+            prompt: localize('filterPrompt', 'Enter a pattern to filter the tree. Use "*" as a wildcard or leave empty to clear the filter.'),
+            value: this._filter ? this._filter.pattern : ''
+        });
+
+        if (!pattern) {
+            context.telemetry.properties.clearedFilter = 'true';
+            this.setFilter(undefined);
+            return;
+        }
+
+        if (treeItem.hasMoreChildrenImpl()) {
+            const loadAll: types.IAzureQuickPickItem<boolean> = await ext.ui.showQuickPick(
+                [
+                    { label: localize('filterLoaded', 'Filter loaded items'), data: false },
+                    { label: localize('filterLoadAll', 'Load all items, then filter'), description: localize('mayTakeAWhile', 'May take a while'), data: true }
+                ],
+                { placeHolder: localize('notAllLoaded', 'Not all items in "{0}" have been loaded.', treeItem.label) }
+            );
+            context.telemetry.properties.loadAllBeforeFilter = String(loadAll.data);
+            if (loadAll.data) {
+                await treeItem.loadAllChildren(context);
+            }
+        }
+
+        this.setFilter({ pattern, includeDescription: context.includeDescription });
     }
 
     public async loadMore(treeItem: AzExtParentTreeItem, context: types.IActionContext): Promise<void> {
@@ -193,6 +319,96 @@ export class AzExtTreeDataProvider implements IAzExtTreeDataProviderInternal, ty
         return <T><unknown>result;
     }
 
+    private firePendingRefreshes(): void {
+        this._refreshTimer = undefined;
+        const treeItems: AzExtTreeItem[] = Array.from(this._pendingRefreshItems);
+        const refreshRoot: boolean = this._pendingRootRefresh;
+        this._pendingRefreshItems.clear();
+        this._pendingRootRefresh = false;
+
+        if (refreshRoot) {
+            this._onDidChangeTreeDataEmitter.fire(undefined);
+        } else {
+            // Refreshing an item also refreshes its descendants, so skip any items that have a pending ancestor
+            for (const treeItem of treeItems) {
+                if (!treeItems.some(ti => isAncestorOf(ti, treeItem))) {
+                    this._onDidChangeTreeDataEmitter.fire(treeItem);
+                }
+            }
+        }
+    }
+
+    private startPolling(treeItem: AzExtTreeItem): void {
+        if (this._pollers.has(treeItem)) {
+            return;
+        }
+
+        const poller: TreeItemPoller = new TreeItemPoller(
+            treeItem,
+            (): void => {
+                // Stop polling items that were deleted or replaced, for example if their parent was refreshed
+                if (this.isInTree(treeItem)) {
+                    this.refreshUIOnly(treeItem);
+                } else {
+                    poller.stop();
+                }
+            },
+            (): void => { this._pollers.delete(treeItem); }
+        );
+        this._pollers.set(treeItem, poller);
+        poller.start();
+    }
+
+    private isInTree(treeItem: AzExtTreeItem): boolean {
+        let child: AzExtTreeItem = treeItem;
+        while (child.parent) {
+            const loadedChildren: AzExtTreeItem[] | undefined = child.parent.loadedChildren;
+            if (!loadedChildren || loadedChildren.indexOf(child) === -1) {
+                return false;
+            }
+            child = child.parent;
+        }
+        return child === this._rootTreeItem;
+    }
+
+    private applyFilter(parent: AzExtParentTreeItem, children: AzExtTreeItem[]): AzExtTreeItem[] {
+        if (!this._filter) {
+            return children;
+        }
+
+        // Display all children of a matching item
+        let treeItem: AzExtTreeItem | undefined = parent;
+        while (treeItem && treeItem !== this._rootTreeItem) {
+            if (this.matchesFilter(treeItem)) {
+                return children;
+            }
+            treeItem = treeItem.parent;
+        }
+
+        return children.filter(c => this.hasFilterMatch(c));
+    }
+
+    private matchesFilter(treeItem: AzExtTreeItem): boolean {
+        // tslint:disable-next-line: no-non-null-assertion
+        const regExp: RegExp = this._filterRegExp!;
+        // tslint:disable-next-line: strict-boolean-expressions
+        return regExp.test(treeItem.label) || (!!this._filter?.includeDescription && !!treeItem.description && regExp.test(treeItem.description));
+    }
+
+    /**
+     * True if the item or any of its loaded descendants match the filter. Parents whose children haven't been loaded yet might have a match, so they're always displayed
+     */
+    private hasFilterMatch(treeItem: AzExtTreeItem): boolean {
+        if (this.matchesFilter(treeItem)) {
+            return true;
+        } else if (isAzExtParentTreeItem(treeItem)) {
+            const loadedChildren: AzExtTreeItem[] | undefined = (<AzExtParentTreeItem>treeItem).loadedChildren;
+            return !loadedChildren || loadedChildren.some(c => this.hasFilterMatch(c));
+        } else {
+            return false;
+        }
+    }
+
     /**
      * Wrapped by `findTreeItem` to ensure only one find is happening per `fullId` at a time
      */
@@ -225,6 +441,17 @@ export class AzExtTreeDataProvider implements IAzExtTreeDataProviderInternal, ty
     }
 }
 
+function isAncestorOf(possibleAncestor: AzExtTreeItem, treeItem: AzExtTreeItem): boolean {
+    let parent: AzExtTreeItem | undefined = treeItem.parent;
+    while (parent) {
+        if (parent === possibleAncestor) {
+            return true;
+        }
+        parent = parent.parent;
+    }
+    return false;
+}
+
 function isAncestor(treeItem: AzExtTreeItem, fullId: string): boolean {
     // Append '/' to 'treeItem.fullId' when checking 'startsWith' to ensure its actually an ancestor, rather than a treeItem at the same level that _happens_ to start with the same id
     // For example, two databases named 'test' and 'test1' as described in this issue: https://github.com/Microsoft/vscode-cosmosdb/issues/488
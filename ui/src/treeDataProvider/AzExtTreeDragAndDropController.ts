@@ -0,0 +1,84 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Uri } from 'vscode';
+import * as types from '../../index';
+import { callWithTelemetryAndErrorHandling } from '../callWithTelemetryAndErrorHandling';
+import { AzExtTreeItem } from './AzExtTreeItem';
+
+const uriListMimeType: string = 'text/uri-list';
+const treeItemsMimeType: string = 'application/vnd.azext.treeitems';
+
+/**
+ * Routes drops of local files and other tree items to `AzExtTreeItem.onDropImpl`
+ */
+export class AzExtTreeDragAndDropController implements types.IAzExtTreeDragAndDropController {
+    public readonly dropMimeTypes: readonly string[] = [uriListMimeType, treeItemsMimeType];
+    public readonly dragMimeTypes: readonly string[] = [treeItemsMimeType];
+
+    private readonly _rootTreeItem: AzExtTreeItem;
+
+    public constructor(rootTreeItem: AzExtTreeItem) {
+        this._rootTreeItem = rootTreeItem;
+    }
+
+    public handleDrag(source: readonly AzExtTreeItem[], dataTransfer: types.IAzExtDataTransfer): void {
+        // The items themselves are preserved for drops within the same window. Otherwise they're found again by id
+        dataTransfer.set(treeItemsMimeType, {
+            value: source,
+            asString: async (): Promise<string> => JSON.stringify(source.map(ti => ti.fullId))
+        });
+    }
+
+    public async handleDrop(target: AzExtTreeItem | undefined, dataTransfer: types.IAzExtDataTransfer): Promise<void> {
+        await callWithTelemetryAndErrorHandling('AzureTreeDataProvider.drop', async (context: types.IActionContext) => {
+            // tslint:disable-next-line: strict-boolean-expressions
+            target = target || this._rootTreeItem;
+            context.telemetry.properties.contextValue = target.contextValue;
+            if (!target.onDropImpl) {
+                context.telemetry.suppressIfSuccessful = true;
+                return;
+            }
+
+            const drop: types.ITreeItemDrop = {
+                uris: await getDroppedUris(dataTransfer),
+                treeItems: (await this.getDroppedTreeItems(context, dataTransfer)).filter(ti => ti !== target)
+            };
+            context.telemetry.measurements.uriCount = drop.uris.length;
+            context.telemetry.measurements.treeItemCount = drop.treeItems.length;
+
+            if (drop.uris.length > 0 || drop.treeItems.length > 0) {
+                await target.onDropImpl(context, drop);
+            }
+        });
+    }
+
+    private async getDroppedTreeItems(context: types.IActionContext, dataTransfer: types.IAzExtDataTransfer): Promise<AzExtTreeItem[]> {
+        const item: types.IAzExtDataTransferItem | undefined = dataTransfer.get(treeItemsMimeType);
+        if (!item) {
+            return [];
+        } else if (Array.isArray(item.value) && item.value.every(v => v instanceof AzExtTreeItem)) {
+            return <AzExtTreeItem[]>item.value;
+        } else {
+            const fullIds: string[] = <string[]>JSON.parse(await item.asString());
+            const treeItems: (AzExtTreeItem | undefined)[] = await Promise.all(fullIds.map(async id => await this._rootTreeItem.treeDataProvider.findTreeItem<AzExtTreeItem>(id, context)));
+            return <AzExtTreeItem[]>treeItems.filter(ti => ti !== undefined);
+        }
+    }
+}
+
+async function getDroppedUris(dataTransfer: types.IAzExtDataTransfer): Promise<Uri[]> {
+    const item: types.IAzExtDataTransferItem | undefined = dataTransfer.get(uriListMimeType);
+    if (!item) {
+        return [];
+    }
+
+    // See https://www.iana.org/assignments/media-types/text/uri-list
+    return (await item.asString())
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#'))
+        .map(line => Uri.parse(line));
+}
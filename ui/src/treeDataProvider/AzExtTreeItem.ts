@@ -20,6 +20,7 @@ export abstract class AzExtTreeItem implements types.AzExtTreeItem {
     public commandId?: string;
     public commandArgs?: unknown[];
     public iconPath?: types.TreeItemIconPath;
+    public transitionalState?: string;
     //#endregion
 
     public readonly collapsibleState: TreeItemCollapsibleState | undefined;
@@ -71,6 +72,7 @@ export abstract class AzExtTreeItem implements types.AzExtTreeItem {
     public refreshImpl?(): Promise<void>;
     public isAncestorOfImpl?(contextValue: string | RegExp): boolean;
     public deleteTreeItemImpl?(deleteTreeItemImpl: types.IActionContext): Promise<void>;
+    public onDropImpl?(context: types.IActionContext, drop: types.ITreeItemDrop): Promise<void>;
     //#endregion
 
     public async refresh(): Promise<void> {
@@ -14,13 +14,17 @@ export interface IAzExtParentTreeItemInternal extends types.AzExtParentTreeItem,
     _isAzExtParentTreeItem: boolean;
     parent: IAzExtParentTreeItemInternal | undefined;
     treeDataProvider: IAzExtTreeDataProviderInternal;
+    loadedChildren: AzExtTreeItem[] | undefined;
     removeChildFromCache(node: AzExtTreeItem): void;
     loadMoreChildren(context: types.IActionContext): Promise<void>;
 }
 
 export interface IAzExtTreeDataProviderInternal extends types.AzExtTreeDataProvider {
     _onTreeItemCreateEmitter: EventEmitter<AzExtTreeItem>;
-    refreshUIOnly(treeItem: AzExtTreeItem | undefined): void;
+    /**
+     * @param childrenReplaced Set if the children of the item were replaced by new objects (with the same ids), which requires refreshing the whole tree
+     */
+    refreshUIOnly(treeItem: AzExtTreeItem | undefined, childrenReplaced?: boolean): void;
 }
 
 /**
@@ -0,0 +1,110 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IActionContext } from '../../index';
+import { callWithTelemetryAndErrorHandling } from '../callWithTelemetryAndErrorHandling';
+import { AzExtTreeItem } from './AzExtTreeItem';
+
+const initialPollDelayMs: number = 1000;
+const maxPollDelayMs: number = 15 * 1000;
+const pollBackoffFactor: number = 1.5;
+
+// Shared by all trees so that lots of transitioning items don't flood the service with requests
+const maxActivePollers: number = 5;
+const activePollers: Set<TreeItemPoller> = new Set();
+const waitingPollers: TreeItemPoller[] = [];
+
+/**
+ * Polls `refreshImpl` of a tree item (with backoff) until it's no longer in a transitional state
+ */
+export class TreeItemPoller {
+    public readonly treeItem: AzExtTreeItem;
+
+    private readonly _onDidPoll: () => void;
+    private readonly _onDidStop: () => void;
+    private _delayMs: number = initialPollDelayMs;
+    private _timer: NodeJS.Timer | undefined;
+    private _stopped: boolean = false;
+
+    /**
+     * @param onDidPoll Called after each poll, so that the item can be re-rendered
+     * @param onDidStop Called once polling stops, whether that's because the state settled, the poll failed, or `stop` was called
+     */
+    public constructor(treeItem: AzExtTreeItem, onDidPoll: () => void, onDidStop: () => void) {
+        this.treeItem = treeItem;
+        this._onDidPoll = onDidPoll;
+        this._onDidStop = onDidStop;
+    }
+
+    public start(): void {
+        if (activePollers.size < maxActivePollers) {
+            activePollers.add(this);
+            this.scheduleNextPoll();
+        } else {
+            waitingPollers.push(this);
+        }
+    }
+
+    public stop(): void {
+        if (this._stopped) {
+            return;
+        }
+
+        this._stopped = true;
+        if (this._timer) {
+            clearTimeout(this._timer);
+            this._timer = undefined;
+        }
+
+        const waitingIndex: number = waitingPollers.indexOf(this);
+        if (waitingIndex !== -1) {
+            waitingPollers.splice(waitingIndex, 1);
+        } else if (activePollers.delete(this)) {
+            const nextPoller: TreeItemPoller | undefined = waitingPollers.shift();
+            if (nextPoller) {
+                nextPoller.start();
+            }
+        }
+
+        this._onDidStop();
+    }
+
+    private scheduleNextPoll(): void {
+        // tslint:disable-next-line: no-floating-promises
+        this._timer = setTimeout(async () => await this.poll(), this._delayMs);
+        this._delayMs = Math.min(this._delayMs * pollBackoffFactor, maxPollDelayMs);
+    }
+
+    private async poll(): Promise<void> {
+        this._timer = undefined;
+        let succeeded: boolean = false;
+        try {
+            await callWithTelemetryAndErrorHandling('AzureTreeDataProvider.poll', async (context: IActionContext) => {
+                context.errorHandling.suppressDisplay = true;
+                context.errorHandling.rethrow = true;
+                context.telemetry.suppressIfSuccessful = true;
+                context.telemetry.properties.contextValue = this.treeItem.contextValue;
+
+                if (this.treeItem.refreshImpl) {
+                    await this.treeItem.refreshImpl();
+                }
+            });
+            succeeded = true;
+        } catch {
+            // The error was already logged. Stop polling rather than repeatedly hitting the same error
+        }
+
+        if (this._stopped) {
+            return;
+        }
+
+        this._onDidPoll();
+        if (succeeded && this.treeItem.transitionalState !== undefined) {
+            this.scheduleNextPoll();
+        } else {
+            this.stop();
+        }
+    }
+}
@@ -0,0 +1,69 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { TreeItemCollapsibleState, Uri } from 'vscode';
+import * as types from '../../index';
+import { AzExtTreeItem } from './AzExtTreeItem';
+
+/**
+ * The lightweight, serializable version of a tree item that's persisted between sessions
+ */
+export interface ITreeItemSnapshot {
+    fullId: string;
+    label: string;
+    description?: string;
+    iconPath?: SerializedIconPath;
+    isCollapsible: boolean;
+}
+
+type SerializedIconPath = { path: string } | { light: string; dark: string };
+
+export function createTreeItemSnapshot(treeItem: AzExtTreeItem): ITreeItemSnapshot {
+    return {
+        fullId: treeItem.fullId,
+        label: treeItem.label,
+        description: treeItem.description,
+        iconPath: serializeIconPath(treeItem.iconPath),
+        isCollapsible: treeItem.collapsibleState !== undefined && treeItem.collapsibleState !== TreeItemCollapsibleState.None
+    };
+}
+
+export function deserializeIconPath(iconPath: SerializedIconPath | undefined): types.TreeItemIconPath | undefined {
+    if (!iconPath) {
+        return undefined;
+    } else if ('path' in iconPath) {
+        return iconPath.path;
+    } else {
+        return { light: iconPath.light, dark: iconPath.dark };
+    }
+}
+
+function serializeIconPath(iconPath: types.TreeItemIconPath | undefined): SerializedIconPath | undefined {
+    if (iconPath === undefined) {
+        return undefined;
+    } else if (typeof iconPath === 'string') {
+        return { path: iconPath };
+    } else if (iconPath instanceof Uri) {
+        return iconPath.scheme === 'file' ? { path: iconPath.fsPath } : undefined;
+    } else if ('light' in iconPath) {
+        const light: string | undefined = getIconFilePath(iconPath.light);
+        const dark: string | undefined = getIconFilePath(iconPath.dark);
+        return light !== undefined && dark !== undefined ? { light, dark } : undefined;
+    } else {
+        // ThemeIcons don't expose their id, so they can't be persisted
+        return undefined;
+    }
+}
+
+/**
+ * Only local icons are persisted, since remote icons might not be available during the next session
+ */
+function getIconFilePath(iconPath: string | Uri): string | undefined {
+    if (typeof iconPath === 'string') {
+        return iconPath;
+    } else {
+        return iconPath.scheme === 'file' ? iconPath.fsPath : undefined;
+    }
+}
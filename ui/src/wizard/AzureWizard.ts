@@ -6,14 +6,20 @@
 import { isNullOrUndefined } from 'util';
 import * as vscode from 'vscode';
 import * as types from '../../index';
-import { GoBackError } from '../errors';
+import { DialogResponses } from '../DialogResponses';
+import { GoBackError, UserCancelledError } from '../errors';
 import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { openReadOnlyJson } from '../openReadOnlyContent';
 import { parseError } from '../parseError';
+import { randomUtils } from '../utils/randomUtils';
+import { AzureWizardAnswersUserInput, IInternalAzureWizardWithAnswers, NoWizardAnswerError } from './AzureWizardAnswersUserInput';
 import { AzureWizardExecuteStep } from './AzureWizardExecuteStep';
 import { AzureWizardPromptStep } from './AzureWizardPromptStep';
+import { AzureWizardSession, IRestoredWizardSession, IWizardSessionStep } from './AzureWizardSession';
 import { AzureWizardUserInput, IInternalAzureWizard } from './AzureWizardUserInput';
 
-export class AzureWizard<T extends types.IActionContext> implements types.AzureWizard<T>, IInternalAzureWizard {
+export class AzureWizard<T extends types.IActionContext> implements types.AzureWizard<T>, IInternalAzureWizard, IInternalAzureWizardWithAnswers {
     public title: string | undefined;
     private readonly _promptSteps: AzureWizardPromptStep<T>[];
     private readonly _executeSteps: AzureWizardExecuteStep<T>[];
@@ -21,9 +27,20 @@ export class AzureWizard<T extends types.IActionContext> implements types.AzureW
     private readonly _context: T;
     private _stepHideStepCount?: boolean;
     private _wizardHideStepCount?: boolean;
+    private _answers?: types.IWizardAnswers;
+    private _title?: string;
+    private _showSummary?: boolean;
+    private _cancellationToken?: vscode.CancellationToken;
+    private _isShowingSummary: boolean = false;
+    private _session: AzureWizardSession | undefined;
+    private _hasPasswordPrompt: boolean = false;
+    private _resumedPromptSteps: IWizardSessionStep[] = [];
+    private _resumedExecuteSteps: IWizardSessionStep[] = [];
+    private _finishedExecuteSteps: IWizardSessionStep[] = [];
 
     private _cachedInputBoxValues: { [step: string]: string | undefined } = {};
     private _currentStepName: string | undefined;
+    private _currentPrompt: { label: string | undefined; isPassword: boolean } | undefined;
 
     public constructor(context: T, options: types.IWizardOptions<T>) {
         // reverse steps to make it easier to use push/pop
@@ -34,12 +51,27 @@ export class AzureWizard<T extends types.IActionContext> implements types.AzureW
         this._executeSteps = options.executeSteps || [];
         this._context = context;
         this._wizardHideStepCount = options.hideStepCount;
+        this._answers = options.answers;
+        this._title = options.title;
+        this._showSummary = options.showSummary;
+        this._cancellationToken = options.cancellationToken;
+        if (options.resumable && options.title && !options.answers) {
+            this._session = new AzureWizardSession(ext.context.globalState, options.title);
+        }
     }
 
     public getCachedInputBoxValue(): string | undefined {
         return this._currentStepName ? this._cachedInputBoxValues[this._currentStepName] : undefined;
     }
 
+    public setCurrentPrompt(label: string | undefined, isPassword: boolean): void {
+        this._currentPrompt = { label, isPassword };
+    }
+
+    public get currentStepName(): string | undefined {
+        return this._currentStepName;
+    }
+
     public get hideStepCount(): boolean {
         return !!(this._wizardHideStepCount || this._stepHideStepCount);
     }
@@ -49,11 +81,23 @@ export class AzureWizard<T extends types.IActionContext> implements types.AzureW
     }
 
     public get totalSteps(): number {
-        return this._finishedPromptSteps.filter(s => s.prompted).length + this._promptSteps.filter(s => s.shouldPrompt(this._context)).length + 1;
+        const summaryStep: number = this._showSummary && !this._answers && !this._isShowingSummary ? 1 : 0;
+        return this._finishedPromptSteps.filter(s => s.prompted).length + this._promptSteps.filter(s => s.shouldPrompt(this._context)).length + summaryStep + 1;
     }
 
     public async prompt(): Promise<void> {
-        const wizardUi: AzureWizardUserInput = new AzureWizardUserInput(this);
+        let wizardUi: AzureWizardUserInput | AzureWizardAnswersUserInput;
+        if (this._answers) {
+            this._context.telemetry.properties.nonInteractive = 'true';
+            // tslint:disable-next-line: strict-boolean-expressions
+            Object.assign(this._context, this._answers.context || {});
+            wizardUi = new AzureWizardAnswersUserInput(this, this._answers);
+        } else {
+            wizardUi = new AzureWizardUserInput(this);
+            if (this._session) {
+                await this.resumeSession(this._session);
+            }
+        }
         ext.ui.wizardUserInput = wizardUi;
 
         try {
@@ -65,8 +109,13 @@ export class AzureWizard<T extends types.IActionContext> implements types.AzureW
                 this.title = step.effectiveTitle;
                 this._stepHideStepCount = step.hideStepCount;
 
-                if (step.shouldPrompt(this._context)) {
-                    step.propertiesBeforePrompt = Object.keys(this._context).filter(k => !isNullOrUndefined(this._context[k]));
+                let propertiesBeforeStep: string[] = this.getDefinedProperties();
+                const resumedStep: IWizardSessionStep | undefined = takeResumedStep(this._resumedPromptSteps, step);
+                if (resumedStep) {
+                    // The step was finished in the previous session and its properties were restored, so they still belong to this step
+                    propertiesBeforeStep = propertiesBeforeStep.filter(p => !resumedStep.keys.some(k => k === p));
+                } else if (step.shouldPrompt(this._context)) {
+                    step.propertiesBeforePrompt = propertiesBeforeStep;
 
                     const disposable: vscode.Disposable = ext.ui.onDidFinishPrompt((result) => {
                         // tslint:disable-next-line: no-non-null-assertion
@@ -74,6 +123,17 @@ export class AzureWizard<T extends types.IActionContext> implements types.AzureW
                         if (typeof result === 'string' && this._currentStepName && !step?.supportsDuplicateSteps) {
                             this._cachedInputBoxValues[this._currentStepName] = result;
                         }
+
+                        if (this._currentPrompt?.isPassword) {
+                            this._hasPasswordPrompt = true;
+                        }
+
+                        const value: string | undefined = this._currentPrompt?.isPassword ? '********' : getSummaryValue(result);
+                        if (value !== undefined) {
+                            // tslint:disable-next-line: no-non-null-assertion strict-boolean-expressions
+                            step!.summaryItems.push({ label: this._currentPrompt?.label || step!.constructor.name, value });
+                        }
+                        this._currentPrompt = undefined;
                     });
 
                     try {
@@ -83,6 +143,8 @@ export class AzureWizard<T extends types.IActionContext> implements types.AzureW
                         if (parseError(err).errorType === 'GoBackError') { // Use `errorType` instead of `instanceof` so that tests can also hit this case
                             step = this.goBack(step);
                             continue;
+                        } else if (err instanceof NoWizardAnswerError && wizardUi instanceof AzureWizardAnswersUserInput) {
+                            throw this.getUnansweredStepsError(step, wizardUi);
                         } else {
                             throw err;
                         }
@@ -99,8 +161,20 @@ export class AzureWizard<T extends types.IActionContext> implements types.AzureW
                     }
                 }
 
+                step.propertiesSetByStep = this.getDefinedProperties().filter(p => !propertiesBeforeStep.some(k => k === p));
                 this._finishedPromptSteps.push(step);
+                await this.saveSession();
+
                 step = this._promptSteps.pop();
+
+                if (!step && this._showSummary && !this._answers) {
+                    step = await this.showSummary();
+                }
+            }
+
+            // Otherwise the session is kept until `execute` finishes, so that it can also be resumed if `execute` fails
+            if (this._session && this._executeSteps.length === 0) {
+                await this._session.clear();
             }
         } finally {
             if (ext.ui.wizardUserInput === wizardUi) { // don't reset if another wizard has already started
@@ -110,40 +184,287 @@ export class AzureWizard<T extends types.IActionContext> implements types.AzureW
     }
 
     public async execute(): Promise<void> {
-        await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification }, async progress => {
-            let currentStep: number = 1;
+        await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, cancellable: true }, async (progress, progressToken) => {
+            // Steps are in the order they would execute one at a time (a smaller priority executes first)
+            const pendingSteps: AzureWizardExecuteStep<T>[] = this._executeSteps.sort((a, b) => b.priority - a.priority).reverse();
+            const runningSteps: Map<AzureWizardExecuteStep<T>, Promise<void>> = new Map();
+            const completedSteps: AzureWizardExecuteStep<T>[] = [];
+            let numStartedSteps: number = 0;
+            let maxParallelSteps: number = 0;
+            let failed: boolean = false;
+            let firstError: unknown;
 
-            const steps: AzureWizardExecuteStep<T>[] = this._executeSteps.sort((a, b) => b.priority - a.priority);
+            const [cancellationToken, cancelDisposable] = linkCancellationTokens([progressToken, this._cancellationToken], () => {
+                this._context.telemetry.properties.cancelStep = this._context.telemetry.properties.lastStepAttempted;
+            });
 
-            const internalProgress: vscode.Progress<{ message?: string; increment?: number }> = {
-                report: (value: { message?: string; increment?: number }): void => {
-                    if (value.message) {
-                        const totalSteps: number = currentStep + steps.filter(s => s.shouldExecute(this._context)).length;
-                        if (totalSteps > 1) {
-                            value.message += ` (${currentStep}/${totalSteps})`;
+            const startStep: (step: AzureWizardExecuteStep<T>) => void = (step: AzureWizardExecuteStep<T>): void => {
+                numStartedSteps += 1;
+                const currentStep: number = numStartedSteps;
+                const internalProgress: vscode.Progress<{ message?: string; increment?: number }> = {
+                    report: (value: { message?: string; increment?: number }): void => {
+                        if (value.message) {
+                            const totalSteps: number = numStartedSteps + pendingSteps.filter(s => s.shouldExecute(this._context)).length;
+                            if (totalSteps > 1) {
+                                value.message += ` (${currentStep}/${totalSteps})`;
+                            }
                         }
+                        progress.report(value);
                     }
-                    progress.report(value);
-                }
+                };
+
+                this._context.telemetry.properties.lastStepAttempted = `execute-${step.constructor.name}`;
+                // Steps without dependencies run one at a time, so any property set while they run was set by them
+                const propertiesBeforeStep: string[] = this.getDefinedProperties();
+                // Use `Promise.resolve().then` so the step is always removed _after_ it's added, even if `execute` throws synchronously
+                runningSteps.set(step, Promise.resolve().then(async () => {
+                    try {
+                        await step.execute(this._context, internalProgress, cancellationToken);
+                        completedSteps.push(step);
+                        // tslint:disable-next-line: strict-boolean-expressions
+                        this._finishedExecuteSteps.push({ name: step.constructor.name, keys: step.produces || this.getDefinedProperties().filter(p => !propertiesBeforeStep.some(k => k === p)) });
+                        await this.saveSession();
+                    } catch (error) {
+                        if (!failed) {
+                            failed = true;
+                            firstError = error;
+                            this._context.telemetry.properties.lastStepAttempted = `execute-${step.constructor.name}`;
+                        }
+                    } finally {
+                        runningSteps.delete(step);
+                    }
+                }));
             };
 
-            let step: AzureWizardExecuteStep<T> | undefined = steps.pop();
-            while (step) {
-                if (step.shouldExecute(this._context)) {
-                    this._context.telemetry.properties.lastStepAttempted = `execute-${step.constructor.name}`;
-                    await step.execute(this._context, internalProgress);
-                    currentStep += 1;
+            // Stop starting new steps after a failure or cancel, but let any running steps finish
+            const getReadyStep: () => AzureWizardExecuteStep<T> | undefined = (): AzureWizardExecuteStep<T> | undefined => {
+                return failed || cancellationToken.isCancellationRequested ? undefined : this.getReadyStep(pendingSteps, runningSteps);
+            };
+
+            while (pendingSteps.length > 0 || runningSteps.size > 0) {
+                let readyStep: AzureWizardExecuteStep<T> | undefined = getReadyStep();
+                while (readyStep) {
+                    pendingSteps.splice(pendingSteps.indexOf(readyStep), 1);
+                    const resumedStep: IWizardSessionStep | undefined = takeResumedStep(this._resumedExecuteSteps, readyStep);
+                    if (resumedStep) {
+                        // The step was finished in the previous session, so don't run it again
+                        this._finishedExecuteSteps.push(resumedStep);
+                    } else if (readyStep.shouldExecute(this._context)) {
+                        startStep(readyStep);
+                    }
+                    readyStep = getReadyStep();
+                }
+
+                if (runningSteps.size === 0) {
+                    break;
                 }
 
-                step = steps.pop();
+                maxParallelSteps = Math.max(maxParallelSteps, runningSteps.size);
+                await Promise.race(runningSteps.values());
             }
+
+            this._context.telemetry.measurements.maxParallelSteps = maxParallelSteps;
+            cancelDisposable.dispose();
+
+            if (!failed && cancellationToken.isCancellationRequested && pendingSteps.some(s => s.shouldExecute(this._context))) {
+                failed = true;
+                firstError = new UserCancelledError();
+            }
+
+            if (failed) {
+                if (completedSteps.length > 0) {
+                    this._context.telemetry.properties.partialExecute = 'true';
+                    this._context.telemetry.measurements.numStepsCompleted = completedSteps.length;
+                    await this.rollback(completedSteps, progress, parseError(firstError).isUserCancelledError);
+                }
+                throw firstError;
+            }
+
+            await this._session?.clear();
         });
     }
 
-    private goBack(currentStep: AzureWizardPromptStep<T>): AzureWizardPromptStep<T> {
+    public async plan(options?: { show?: boolean }): Promise<types.IWizardPlanItem[]> {
+        this._context.telemetry.properties.plan = 'true';
+
+        const plan: types.IWizardPlanItem[] = [];
+        const steps: AzureWizardExecuteStep<T>[] = this._executeSteps.slice().sort((a, b) => b.priority - a.priority).reverse();
+        for (const step of steps) {
+            if (step.shouldExecute(this._context)) {
+                const description: types.IResourceDescription | undefined = step.describe ? await step.describe(this._context) : undefined;
+                plan.push({ step: step.constructor.name, ...description });
+            }
+        }
+
+        if (options?.show) {
+            const label: string = localize('planLabel', '{0} Plan', this.title || localize('wizard', 'Wizard'));
+            await openReadOnlyJson({ label, fullId: `${label}-${randomUtils.getRandomHexString(10)}` }, plan);
+        }
+
+        return plan;
+    }
+
+    /**
+     * Returns the first pending step that can start, based on the steps that are still pending or running before it.
+     * Steps that don't declare `produces` and `consumes` must wait for every step before them (and block every step after them), just like running one at a time
+     * Otherwise, a step only waits for steps before it that read or write a context property it writes, or that write a context property it reads
+     */
+    private getReadyStep(pendingSteps: AzureWizardExecuteStep<T>[], runningSteps: Map<AzureWizardExecuteStep<T>, Promise<void>>): AzureWizardExecuteStep<T> | undefined {
+        const blockingSteps: AzureWizardExecuteStep<T>[] = Array.from(runningSteps.keys());
+        for (const step of pendingSteps) {
+            if (!hasDependencies(step)) {
+                if (blockingSteps.length === 0) {
+                    return step;
+                }
+            } else {
+                if (!blockingSteps.some(s => conflicts(step, s))) {
+                    return step;
+                }
+            }
+
+            blockingSteps.push(step);
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Asks the user whether to clean up after a failed or cancelled execute and, if so, rolls back the completed steps in reverse order
+     * Any errors are logged to the output channel rather than thrown, so that the original error is still displayed to the user
+     */
+    private async rollback(completedSteps: AzureWizardExecuteStep<T>[], progress: vscode.Progress<{ message?: string; increment?: number }>, cancelled: boolean): Promise<void> {
+        const stepsToRollback: AzureWizardExecuteStep<T>[] = completedSteps.filter(s => !!s.rollback).reverse();
+        if (stepsToRollback.length === 0) {
+            return;
+        }
+
+        if (this._answers) {
+            // Never delete anything without asking
+            this._context.telemetry.properties.rollbackResult = 'Skipped';
+            return;
+        }
+
+        const message: string = cancelled ?
+            localize('rollbackPromptCancelled', 'The operation was cancelled before all resources were created. Do you want to delete the resources that were already created?') :
+            localize('rollbackPrompt', 'An error occurred before all resources were created. Do you want to delete the resources that were already created?');
+        let result: vscode.MessageItem | undefined;
+        try {
+            result = await ext.ui.showWarningMessage(message, { modal: true }, DialogResponses.deleteResponse, DialogResponses.no);
+        } catch {
+            // treat cancel the same as "No"
+        }
+
+        if (result !== DialogResponses.deleteResponse) {
+            this._context.telemetry.properties.rollbackResult = 'Skipped';
+            return;
+        }
+
+        let failed: boolean = false;
+        for (const step of stepsToRollback) {
+            try {
+                // tslint:disable-next-line: no-non-null-assertion
+                await step.rollback!(this._context, progress);
+            } catch (error) {
+                failed = true;
+                ext.outputChannel.appendLog(localize('rollbackFailed', 'Failed to clean up after step "{0}": {1}', step.constructor.name, parseError(error).message), { level: 'error' });
+            }
+        }
+
+        this._context.telemetry.properties.rollbackResult = failed ? 'Failed' : 'Succeeded';
+
+        // Resuming the session should create the deleted resources again
+        this._finishedExecuteSteps = this._finishedExecuteSteps.filter(s => !stepsToRollback.some(r => r.constructor.name === s.name));
+        await this.saveSession();
+    }
+
+    /**
+     * Offers to resume the previous session of a wizard with the same title that was not finished
+     */
+    private async resumeSession(session: AzureWizardSession): Promise<void> {
+        session.setInitialContext(this._context);
+        const numFinishedSteps: number | undefined = session.numFinishedSteps;
+        if (numFinishedSteps !== undefined) {
+            const resume: vscode.MessageItem = { title: localize('resume', 'Resume') };
+            const startOver: vscode.MessageItem = { title: localize('startOver', 'Start over') };
+            const message: string = localize('resumeWizard', 'You have an unfinished "{0}" session with {1} completed step(s). Do you want to resume it?', this._title, numFinishedSteps);
+            this._context.telemetry.properties.cancelStep = 'resumeWizard';
+            const result: vscode.MessageItem = await ext.ui.showWarningMessage(message, { modal: true }, resume, startOver);
+            this._context.telemetry.properties.cancelStep = undefined;
+
+            if (result === resume) {
+                this._context.telemetry.properties.resumedWizard = 'true';
+                const restored: IRestoredWizardSession = session.restore(this._context);
+                this._resumedPromptSteps = restored.finishedPromptSteps.slice();
+                this._resumedExecuteSteps = restored.finishedExecuteSteps.slice();
+                this._cachedInputBoxValues = restored.cachedInputBoxValues;
+            } else {
+                this._context.telemetry.properties.resumedWizard = 'false';
+                await session.clear();
+            }
+        }
+    }
+
+    private async saveSession(): Promise<void> {
+        // Never save anything after a password was entered, since it might be in the context
+        if (this._session && !this._hasPasswordPrompt) {
+            await this._session.save(this._context, this._finishedPromptSteps.map(s => ({ name: s.constructor.name, keys: s.propertiesSetByStep })), this._finishedExecuteSteps, this._cachedInputBoxValues);
+        }
+    }
+
+    private getDefinedProperties(): string[] {
+        return Object.keys(this._context).filter(k => !isNullOrUndefined(this._context[k]));
+    }
+
+    /**
+     * Displays the value chosen for each prompted step and lets the user jump back to a specific step
+     * @returns The step to prompt again or undefined if the user confirmed their choices
+     */
+    private async showSummary(): Promise<AzureWizardPromptStep<T> | undefined> {
+        const promptedSteps: AzureWizardPromptStep<T>[] = this._finishedPromptSteps.filter(s => s.prompted && s.summaryItems.length > 0);
+        if (promptedSteps.length === 0) {
+            return undefined;
+        }
+
+        const picks: types.IAzureQuickPickItem<AzureWizardPromptStep<T> | undefined>[] = [{ label: localize('confirmSelections', '$(check) Confirm'), data: undefined, suppressPersistence: true }];
+        for (const step of promptedSteps) {
+            for (const item of step.summaryItems) {
+                picks.push({ label: item.value, description: item.label, data: step, suppressPersistence: true });
+            }
+        }
+
+        this._isShowingSummary = true;
+        this._context.telemetry.properties.lastStepAttempted = 'prompt-summary';
+        try {
+            const placeHolder: string = localize('summaryPlaceHolder', 'Review your selections. Select a value to change it or select "Confirm" to continue.');
+            const targetStep: AzureWizardPromptStep<T> | undefined = (await ext.ui.showQuickPick(picks, { placeHolder, suppressPersistence: true })).data;
+            if (!targetStep) {
+                return undefined;
+            }
+
+            this._context.telemetry.properties.summaryEditedStep = targetStep.constructor.name;
+            let step: AzureWizardPromptStep<T> = this.goBack(undefined);
+            while (step !== targetStep) {
+                step = this.goBack(step);
+            }
+            return step;
+        } catch (err) {
+            if (parseError(err).errorType === 'GoBackError') {
+                return this.goBack(undefined);
+            } else {
+                throw err;
+            }
+        } finally {
+            this._isShowingSummary = false;
+            this._currentPrompt = undefined;
+        }
+    }
+
+    private goBack(currentStep: AzureWizardPromptStep<T> | undefined): AzureWizardPromptStep<T> {
         let step: AzureWizardPromptStep<T> | undefined = currentStep;
         do {
-            this._promptSteps.push(step);
+            if (step) {
+                this._promptSteps.push(step);
+            }
             step = this._finishedPromptSteps.pop();
             if (!step) {
                 throw new GoBackError();
@@ -164,6 +485,21 @@ export class AzureWizard<T extends types.IActionContext> implements types.AzureW
         return step;
     }
 
+    /**
+     * Lists the current step and any remaining steps that would prompt, since they can't be answered either
+     */
+    private getUnansweredStepsError(currentStep: AzureWizardPromptStep<T>, wizardUi: AzureWizardAnswersUserInput): Error {
+        const unansweredSteps: string[] = [currentStep.constructor.name];
+        for (const step of this._promptSteps.slice().reverse()) {
+            const stepName: string = step.constructor.name;
+            if (step.shouldPrompt(this._context) && !wizardUi.hasAnswer(stepName) && !unansweredSteps.some(s => s === stepName)) {
+                unansweredSteps.push(stepName);
+            }
+        }
+
+        return new Error(localize('unansweredSteps', 'No answers were provided for the following wizard steps: {0}', unansweredSteps.join(', ')));
+    }
+
     private addSubWizard(step: AzureWizardPromptStep<T>, subWizard: types.IWizardOptions<T>): void {
         step.hasSubWizard = true;
 
@@ -184,6 +520,63 @@ export class AzureWizard<T extends types.IActionContext> implements types.AzureW
     }
 }
 
+function getSummaryValue(result: types.PromptResult): string | undefined {
+    if (typeof result === 'string') {
+        return result;
+    } else if (Array.isArray(result)) {
+        return (<(vscode.QuickPickItem | vscode.Uri)[]>result).map(r => r instanceof vscode.Uri ? r.fsPath : r.label).join(', ');
+    } else if ('label' in result) {
+        return result.label;
+    } else {
+        // Skip message items since they're typically just confirmations
+        return undefined;
+    }
+}
+
+/**
+ * Removes and returns the first step with the same name that was finished in the previous session, if any
+ */
+function takeResumedStep(resumedSteps: IWizardSessionStep[], step: object): IWizardSessionStep | undefined {
+    const index: number = resumedSteps.findIndex(s => s.name === step.constructor.name);
+    return index >= 0 ? resumedSteps.splice(index, 1)[0] : undefined;
+}
+
+function hasDependencies<T extends types.IActionContext>(step: AzureWizardExecuteStep<T>): boolean {
+    return !!step.produces && !!step.consumes;
+}
+
+/**
+ * Two steps can't run at the same time if one writes a property the other reads or writes
+ */
+function conflicts<T extends types.IActionContext>(step1: AzureWizardExecuteStep<T>, step2: AzureWizardExecuteStep<T>): boolean {
+    if (!hasDependencies(step1) || !hasDependencies(step2)) {
+        return true;
+    }
+
+    // tslint:disable: no-non-null-assertion
+    const keys1: string[] = step1.consumes!.concat(step1.produces!);
+    const keys2: string[] = step2.consumes!.concat(step2.produces!);
+    return step1.produces!.some(p => keys2.indexOf(p) >= 0) || step2.produces!.some(p => keys1.indexOf(p) >= 0);
+    // tslint:enable: no-non-null-assertion
+}
+
+/**
+ * Returns a token that is cancelled (and calls `onCancelled`) once any of the given tokens is cancelled
+ */
+function linkCancellationTokens(tokens: (vscode.CancellationToken | undefined)[], onCancelled: () => void): [vscode.CancellationToken, vscode.Disposable] {
+    const source: vscode.CancellationTokenSource = new vscode.CancellationTokenSource();
+    const disposables: vscode.Disposable[] = [source, source.token.onCancellationRequested(onCancelled)];
+    for (const token of tokens) {
+        if (token) {
+            if (token.isCancellationRequested) {
+                source.cancel();
+            }
+            disposables.push(token.onCancellationRequested(() => source.cancel()));
+        }
+    }
+    return [source.token, vscode.Disposable.from(...disposables)];
+}
+
 function removeFromEnd<T>(array: T[], n: number): void {
     array.splice(n * -1, n);
 }
@@ -0,0 +1,147 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { InputBoxOptions, MessageItem, QuickPickItem, Uri } from 'vscode';
+import * as types from '../../index';
+import { localize } from '../localize';
+import { IWizardUserInput } from './IWizardUserInput';
+
+export interface IInternalAzureWizardWithAnswers {
+    currentStepName: string | undefined;
+}
+
+/**
+ * Thrown when a step prompts in non-interactive mode, but no answer was provided for that prompt
+ */
+export class NoWizardAnswerError extends Error {
+    public readonly stepName: string;
+
+    constructor(stepName: string) {
+        super(localize('noWizardAnswer', 'No answer was provided for step "{0}".', stepName));
+        this.stepName = stepName;
+    }
+}
+
+/**
+ * Satisfies wizard prompts from a set of answers instead of displaying any UI. Used when running an AzureWizard in non-interactive mode
+ */
+export class AzureWizardAnswersUserInput implements IWizardUserInput {
+    public readonly isPrompting: boolean = false;
+    public readonly showBackButton: boolean = false;
+
+    private _wizard: IInternalAzureWizardWithAnswers;
+    private _answers: { [stepName: string]: types.WizardAnswer | types.WizardAnswer[] };
+    private _answersUsed: { [stepName: string]: number } = {};
+
+    public constructor(wizard: IInternalAzureWizardWithAnswers, answers: types.IWizardAnswers) {
+        this._wizard = wizard;
+        // tslint:disable-next-line: strict-boolean-expressions
+        this._answers = answers.steps || {};
+    }
+
+    public hasAnswer(stepName: string): boolean {
+        return this._answers[stepName] !== undefined;
+    }
+
+    public async showQuickPick<TPick extends QuickPickItem>(picks: TPick[] | Thenable<TPick[]>, options: types.IAzureQuickPickOptions): Promise<TPick | TPick[]> {
+        const [stepName, answer] = this.takeAnswer();
+        const resolvedPicks: TPick[] = await Promise.resolve(picks);
+
+        if (options.canPickMany) {
+            const answers: string[] = Array.isArray(answer) ? answer : [answer];
+            return answers.map(a => findPick(resolvedPicks, a, stepName));
+        } else if (Array.isArray(answer)) {
+            throw new Error(localize('tooManyPicks', 'Step "{0}" only supports a single pick, but multiple answers were provided: {1}', stepName, answer.join(', ')));
+        } else {
+            return findPick(resolvedPicks, answer, stepName);
+        }
+    }
+
+    public async showInputBox(options: InputBoxOptions): Promise<string> {
+        const [stepName, answer] = this.takeAnswer();
+        if (Array.isArray(answer)) {
+            throw new Error(localize('expectedSingleValue', 'Step "{0}" expected a single value, but multiple answers were provided.', stepName));
+        }
+
+        if (options.validateInput) {
+            const message: string | undefined | null = await Promise.resolve(options.validateInput(answer));
+            if (message) {
+                const displayValue: string = options.password ? '***' : answer;
+                throw new Error(localize('invalidAnswer', 'Invalid answer "{0}" for step "{1}": {2}', displayValue, stepName, message));
+            }
+        }
+
+        return answer;
+    }
+
+    /**
+     * The answer is the title of the message item
+     */
+    public async showWarningMessage(message: string, ...args: unknown[]): Promise<MessageItem> {
+        const [stepName, answer] = this.takeAnswer();
+        if (Array.isArray(answer)) {
+            throw new Error(localize('expectedSingleValue', 'Step "{0}" expected a single value, but multiple answers were provided.', stepName));
+        }
+
+        // The first arg may be `MessageOptions` rather than an item
+        const items: MessageItem[] = <MessageItem[]>args.filter(a => typeof (<MessageItem | undefined>a)?.title === 'string');
+        const item: MessageItem | undefined = items.find(i => i.title.toLowerCase() === answer.toLowerCase());
+        if (!item) {
+            const validItems: string = items.map(i => `"${i.title}"`).join(', ');
+            throw new Error(localize('noMatchingMessageItem', 'Answer "{0}" for step "{1}" does not match any of the choices for message "{2}": {3}', answer, stepName, message, validItems));
+        }
+
+        return item;
+    }
+
+    /**
+     * The answer is the path of the file or folder (or an array of paths if the dialog supports selecting many)
+     */
+    public async showOpenDialog(): Promise<Uri[]> {
+        const [, answer] = this.takeAnswer();
+        return (Array.isArray(answer) ? answer : [answer]).map(a => Uri.file(a));
+    }
+
+    private takeAnswer(): [string, types.WizardAnswer] {
+        // tslint:disable-next-line: strict-boolean-expressions
+        const stepName: string = this._wizard.currentStepName || '';
+        const answers: types.WizardAnswer | types.WizardAnswer[] | undefined = this._answers[stepName];
+        // tslint:disable-next-line: strict-boolean-expressions
+        const index: number = this._answersUsed[stepName] || 0;
+
+        let answer: types.WizardAnswer | undefined;
+        if (Array.isArray(answers)) {
+            answer = answers[index];
+        } else if (index === 0) {
+            answer = answers;
+        }
+
+        if (answer === undefined) {
+            throw new NoWizardAnswerError(stepName);
+        }
+
+        this._answersUsed[stepName] = index + 1;
+        return [stepName, answer];
+    }
+}
+
+function findPick<TPick extends QuickPickItem>(picks: TPick[], answer: string, stepName: string): TPick {
+    const normalizedAnswer: string = answer.toLowerCase();
+    const pick: TPick | undefined = picks.find(p => (<types.IAzureQuickPickItem><{}>p).id === answer) ||
+        picks.find(p => removeIcons(p.label).toLowerCase() === removeIcons(normalizedAnswer));
+    if (!pick) {
+        const validPicks: string = picks.map(p => `"${removeIcons(p.label)}"`).join(', ');
+        throw new Error(localize('noMatchingPick', 'Answer "{0}" for step "{1}" does not match any of the available picks: {2}', answer, stepName, validPicks));
+    }
+
+    return pick;
+}
+
+/**
+ * Removes icons like "$(plus)" so that answers don't need to include them
+ */
+function removeIcons(label: string): string {
+    return label.replace(/\$\([a-z0-9\-]+\)/gi, '').trim();
+}
@@ -3,11 +3,17 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { Progress } from 'vscode';
+import { CancellationToken, Progress } from 'vscode';
 import * as types from '../../index';
 
 export abstract class AzureWizardExecuteStep<T extends types.IActionContext> implements types.AzureWizardExecuteStep<T> {
     public abstract priority: number;
-    public abstract execute(wizardContext: T, progress: Progress<{ message?: string; increment?: number }>): Promise<void>;
+    public produces?: string[];
+    public consumes?: string[];
+    public abstract execute(wizardContext: T, progress: Progress<{ message?: string; increment?: number }>, cancellationToken?: CancellationToken): Promise<void>;
     public abstract shouldExecute(wizardContext: T): boolean;
+
+    public describe?(wizardContext: T): types.IResourceDescription | undefined | Promise<types.IResourceDescription | undefined>;
+
+    public rollback?(wizardContext: T, progress: Progress<{ message?: string; increment?: number }>): Promise<void>;
 }
@@ -13,7 +13,9 @@ export abstract class AzureWizardPromptStep<T extends types.IActionContext> impl
     public numSubPromptSteps: number;
     public numSubExecuteSteps: number;
     public propertiesBeforePrompt: string[];
+    public propertiesSetByStep: string[];
     public prompted: boolean;
+    public summaryItems: { label: string; value: string }[];
 
     public abstract prompt(wizardContext: T): Promise<void>;
 
@@ -26,5 +28,6 @@ export abstract class AzureWizardPromptStep<T extends types.IActionContext> impl
         this.numSubPromptSteps = 0;
         this.numSubExecuteSteps = 0;
         this.prompted = false;
+        this.summaryItems = [];
     }
 }
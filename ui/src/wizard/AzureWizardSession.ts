@@ -0,0 +1,118 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Memento } from 'vscode';
+import { randomUtils } from '../utils/randomUtils';
+
+/**
+ * A finished step and the context properties it set
+ */
+export interface IWizardSessionStep {
+    name: string;
+    keys: string[];
+}
+
+export interface IRestoredWizardSession {
+    finishedPromptSteps: IWizardSessionStep[];
+    finishedExecuteSteps: IWizardSessionStep[];
+    cachedInputBoxValues: { [step: string]: string | undefined };
+}
+
+interface ISavedWizardSession extends IRestoredWizardSession {
+    context: { [key: string]: unknown };
+}
+
+/**
+ * Persists the answers of a partially completed wizard so that it can be resumed the next time a wizard with the same title is started
+ */
+export class AzureWizardSession {
+    private readonly _persistence: Memento;
+    private readonly _key: string;
+    private _initialKeys: string[] = [];
+    private _saved: ISavedWizardSession | undefined;
+
+    public constructor(persistence: Memento, title: string) {
+        this._persistence = persistence;
+        this._key = `AzureWizard.session.${randomUtils.getPseudononymousStringHash(title)}`;
+        this._saved = this._persistence.get<ISavedWizardSession>(this._key);
+    }
+
+    /**
+     * The number of steps that were finished in the previous session, or undefined if there is no previous session
+     */
+    public get numFinishedSteps(): number | undefined {
+        return this._saved ? this._saved.finishedPromptSteps.length + this._saved.finishedExecuteSteps.length : undefined;
+    }
+
+    /**
+     * Keys in the context when the wizard started are never saved, since they're provided by the caller every time
+     */
+    public setInitialContext(context: {}): void {
+        this._initialKeys = Object.keys(context);
+    }
+
+    /**
+     * Restores the previous session into the context and returns the finished steps, which should be skipped
+     */
+    public restore(context: {}): IRestoredWizardSession {
+        if (!this._saved) {
+            return { finishedPromptSteps: [], finishedExecuteSteps: [], cachedInputBoxValues: {} };
+        }
+
+        Object.assign(context, this._saved.context);
+        return this._saved;
+    }
+
+    /**
+     * A step's properties are saved all together or not at all (e.g. a subscription id is useless without the credentials that go with it)
+     * If any of them can't be saved, the step is left out of the session so that it runs again when the session is resumed
+     */
+    public async save(context: {}, finishedPromptSteps: IWizardSessionStep[], finishedExecuteSteps: IWizardSessionStep[], cachedInputBoxValues: { [step: string]: string | undefined }): Promise<void> {
+        const values: { [key: string]: unknown } = context;
+        const savedContext: { [key: string]: unknown } = {};
+        const saveSteps: (steps: IWizardSessionStep[]) => IWizardSessionStep[] = (steps: IWizardSessionStep[]): IWizardSessionStep[] => {
+            return steps.filter(step => {
+                const keys: string[] = step.keys.filter(key => !this._initialKeys.some(k => k === key));
+                if (!keys.every(key => isSerializable(values[key]))) {
+                    return false;
+                }
+
+                for (const key of keys) {
+                    savedContext[key] = values[key];
+                }
+                return true;
+            });
+        };
+
+        this._saved = {
+            finishedPromptSteps: saveSteps(finishedPromptSteps),
+            finishedExecuteSteps: saveSteps(finishedExecuteSteps),
+            context: savedContext,
+            cachedInputBoxValues
+        };
+        await this._persistence.update(this._key, this._saved);
+    }
+
+    public async clear(): Promise<void> {
+        this._saved = undefined;
+        await this._persistence.update(this._key, undefined);
+    }
+}
+
+/**
+ * Only plain data is saved. Things like tasks, clients, or credentials are skipped and will be re-created by their steps
+ */
+function isSerializable(value: unknown): boolean {
+    if (value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return true;
+    } else if (Array.isArray(value)) {
+        return value.every(isSerializable);
+    } else if (typeof value === 'object') {
+        const proto: unknown = Object.getPrototypeOf(value);
+        return (proto === Object.prototype || proto === null) && Object.values(<{}>value).every(isSerializable);
+    } else {
+        return false;
+    }
+}
@@ -14,6 +14,7 @@ export interface IInternalAzureWizard {
     totalSteps: number;
     hideStepCount: boolean | undefined;
     getCachedInputBoxValue(): string | undefined;
+    setCurrentPrompt(label: string | undefined, isPassword: boolean): void;
 }
 
 /**
@@ -57,6 +58,7 @@ export class AzureWizardUserInput implements IWizardUserInput {
             quickPick.matchOnDescription = !!options.matchOnDescription;
             quickPick.matchOnDetail = !!options.matchOnDetail;
             quickPick.canSelectMany = !!options.canPickMany;
+            this._wizard.setCurrentPrompt(options.placeHolder, false);
 
             return await new Promise<TPick | TPick[]>(async (resolve, reject): Promise<void> => {
                 disposables.push(
@@ -125,6 +127,7 @@ export class AzureWizardUserInput implements IWizardUserInput {
             inputBox.password = !!options.password;
             inputBox.placeholder = options.placeHolder;
             inputBox.prompt = options.prompt;
+            this._wizard.setCurrentPrompt(options.prompt || options.placeHolder, !!options.password);
 
             let latestValidation: Promise<string | undefined | null> = options.validateInput ? Promise.resolve(options.validateInput(inputBox.value)) : Promise.resolve('');
             return await new Promise<string>((resolve, reject): void => {
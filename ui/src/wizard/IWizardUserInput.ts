@@ -3,11 +3,17 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { InputBoxOptions, QuickPickItem, QuickPickOptions } from "vscode";
+import { InputBoxOptions, MessageItem, OpenDialogOptions, QuickPickItem, QuickPickOptions, Uri } from "vscode";
 
 export interface IWizardUserInput extends IRootUserInput {
     isPrompting: boolean;
     showBackButton: boolean;
+
+    /**
+     * Only implemented if messages and dialogs shouldn't be shown with `vscode.window` (e.g. in non-interactive mode)
+     */
+    showWarningMessage?(message: string, ...args: unknown[]): Promise<MessageItem>;
+    showOpenDialog?(options: OpenDialogOptions): Promise<Uri[]>;
 }
 
 export interface IRootUserInput {
@@ -15,6 +15,10 @@ import { ResourceGroupListStep } from './ResourceGroupListStep';
 
 export class ResourceGroupCreateStep<T extends types.IResourceGroupWizardContext> extends AzureWizardExecuteStep<T> implements types.ResourceGroupCreateStep<T> {
     public priority: number = 100;
+    public consumes: string[] = ['newResourceGroupName', 'location'];
+    public produces: string[] = ['resourceGroup'];
+
+    private _createdResourceGroupName: string | undefined;
 
     public async execute(wizardContext: T, progress: Progress<{ message?: string; increment?: number }>): Promise<void> {
         // tslint:disable-next-line:no-non-null-assertion
@@ -32,6 +36,7 @@ export class ResourceGroupCreateStep<T extends types.IResourceGroupWizardContext
                 ext.outputChannel.appendLog(creatingMessage);
                 progress.report({ message: creatingMessage });
                 wizardContext.resourceGroup = await resourceClient.resourceGroups.createOrUpdate(newName, { location: newLocation });
+                this._createdResourceGroupName = newName;
                 ext.outputChannel.appendLog(localize('createdResourceGroup', 'Successfully created resource group "{0}".', newName));
             }
         } catch (error) {
@@ -51,6 +56,29 @@ export class ResourceGroupCreateStep<T extends types.IResourceGroupWizardContext
         }
     }
 
+    public describe(wizardContext: T): types.IResourceDescription {
+        return {
+            type: 'Microsoft.Resources/resourceGroups',
+            name: wizardContext.newResourceGroupName,
+            location: wizardContext.location?.name,
+            // An existing resource group with the same name will be used instead of creating a new one
+            properties: { useExistingIfFound: true }
+        };
+    }
+
+    public async rollback(wizardContext: T, progress: Progress<{ message?: string; increment?: number }>): Promise<void> {
+        // Only delete the resource group if it didn't already exist
+        if (this._createdResourceGroupName) {
+            const deletingMessage: string = localize('deletingResourceGroup', 'Deleting resource group "{0}"...', this._createdResourceGroupName);
+            ext.outputChannel.appendLog(deletingMessage);
+            progress.report({ message: deletingMessage });
+            const resourceClient: ResourceManagementClient = createAzureClient(wizardContext, ResourceManagementClient);
+            await resourceClient.resourceGroups.deleteMethod(this._createdResourceGroupName);
+            ext.outputChannel.appendLog(localize('deletedResourceGroup', 'Successfully deleted resource group "{0}".', this._createdResourceGroupName));
+            this._createdResourceGroupName = undefined;
+        }
+    }
+
     public shouldExecute(wizardContext: T): boolean {
         return !wizardContext.resourceGroup;
     }
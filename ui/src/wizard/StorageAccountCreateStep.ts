@@ -13,6 +13,8 @@ import { AzureWizardExecuteStep } from './AzureWizardExecuteStep';
 
 export class StorageAccountCreateStep<T extends types.IStorageAccountWizardContext> extends AzureWizardExecuteStep<T> implements types.StorageAccountCreateStep<T> {
     public priority: number = 130;
+    public consumes: string[] = ['newStorageAccountName', 'location', 'resourceGroup'];
+    public produces: string[] = ['storageAccount'];
 
     private readonly _defaults: types.INewStorageAccountDefaults;
 
@@ -26,7 +28,7 @@ export class StorageAccountCreateStep<T extends types.IStorageAccountWizardConte
         const newLocation: string = wizardContext.location!.name!;
         // tslint:disable-next-line:no-non-null-assertion
         const newName: string = wizardContext.newStorageAccountName!;
-        const newSkuName: StorageManagementModels.SkuName = <StorageManagementModels.SkuName>`${this._defaults.performance}_${this._defaults.replication}`;
+        const newSkuName: StorageManagementModels.SkuName = this.getSkuName();
         const creatingStorageAccount: string = localize('CreatingStorageAccount', 'Creating storage account "{0}" in location "{1}" with sku "{2}"...', newName, newLocation, newSkuName);
         ext.outputChannel.appendLog(creatingStorageAccount);
         progress.report({ message: creatingStorageAccount });
@@ -46,7 +48,37 @@ export class StorageAccountCreateStep<T extends types.IStorageAccountWizardConte
         ext.outputChannel.appendLog(createdStorageAccount);
     }
 
+    public describe(wizardContext: T): types.IResourceDescription {
+        return {
+            type: 'Microsoft.Storage/storageAccounts',
+            name: wizardContext.newStorageAccountName,
+            location: wizardContext.location?.name,
+            properties: {
+                resourceGroup: wizardContext.resourceGroup?.name || wizardContext.newResourceGroupName,
+                sku: this.getSkuName(),
+                kind: this._defaults.kind,
+                enableHttpsTrafficOnly: true
+            }
+        };
+    }
+
+    public async rollback(wizardContext: T, progress: Progress<{ message?: string; increment?: number }>): Promise<void> {
+        // tslint:disable-next-line:no-non-null-assertion
+        const name: string = wizardContext.newStorageAccountName!;
+        const deletingStorageAccount: string = localize('DeletingStorageAccount', 'Deleting storage account "{0}"...', name);
+        ext.outputChannel.appendLog(deletingStorageAccount);
+        progress.report({ message: deletingStorageAccount });
+        const storageClient: StorageManagementClient = createAzureClient(wizardContext, StorageManagementClient);
+        // tslint:disable-next-line:no-non-null-assertion
+        await storageClient.storageAccounts.deleteMethod(wizardContext.resourceGroup!.name!, name);
+        ext.outputChannel.appendLog(localize('DeletedStorageAccount', 'Successfully deleted storage account "{0}".', name));
+    }
+
     public shouldExecute(wizardContext: T): boolean {
         return !wizardContext.storageAccount;
     }
+
+    private getSkuName(): StorageManagementModels.SkuName {
+        return <StorageManagementModels.SkuName>`${this._defaults.performance}_${this._defaults.replication}`;
+    }
 }
@@ -4,7 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { ResourceManagementClient, ResourceManagementModels } from '@azure/arm-resources';
-import { Progress } from 'vscode';
+import { CancellationToken, Progress } from 'vscode';
 import * as types from '../../index';
 import { createAzureClient } from '../createAzureClient';
 import { localize } from '../localize';
@@ -21,7 +21,7 @@ export class VerifyProvidersStep<T extends types.ISubscriptionWizardContext> ext
         this._providers = providers;
     }
 
-    public async execute(context: T, progress: Progress<{ message?: string; increment?: number }>): Promise<void> {
+    public async execute(context: T, progress: Progress<{ message?: string; increment?: number }>, cancellationToken?: CancellationToken): Promise<void> {
         progress.report({ message: localize('registeringProviders', 'Registering Providers...') });
 
         const client: ResourceManagementClient = createAzureClient(context, ResourceManagementClient);
@@ -37,7 +37,7 @@ export class VerifyProvidersStep<T extends types.ISubscriptionWizardContext> ext
                     do {
                         await delay(2 * 1000);
                         provider = await client.providers.get(providerName);
-                    } while (provider.registrationState?.toLowerCase() === 'registering' && Date.now() < maxTime);
+                    } while (provider.registrationState?.toLowerCase() === 'registering' && Date.now() < maxTime && !cancellationToken?.isCancellationRequested);
                 }
             } catch (error) {
                 // ignore and continue with wizard. An error here would likely be confusing and un-actionable
@@ -46,6 +46,14 @@ export class VerifyProvidersStep<T extends types.ISubscriptionWizardContext> ext
         }));
     }
 
+    public describe(_wizardContext: T): types.IResourceDescription {
+        return {
+            type: 'Microsoft.Resources/providers',
+            // Providers are only registered if they're not already registered
+            properties: { providers: this._providers }
+        };
+    }
+
     public shouldExecute(_context: T): boolean {
         return true;
     }
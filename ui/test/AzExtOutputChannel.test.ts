@@ -0,0 +1,54 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { ConfigurationTarget, workspace } from 'vscode';
+import { IAzExtOutputChannel, LogLevel } from '..';
+import { createAzExtOutputChannel } from '../src/AzExtOutputChannel';
+
+suite('AzExtOutputChannel', () => {
+    const extensionPrefix: string = 'azureextensionui';
+    let outputChannel: IAzExtOutputChannel;
+    let lines: string[];
+
+    async function setMinLevel(level: LogLevel | undefined): Promise<void> {
+        await workspace.getConfiguration(extensionPrefix).update('outputLogLevel', level, ConfigurationTarget.Global);
+    }
+
+    setup(() => {
+        outputChannel = createAzExtOutputChannel('AzExtOutputChannel Test', extensionPrefix);
+        lines = [];
+        outputChannel.appendLine = (value: string): void => { lines.push(value); };
+    });
+
+    teardown(async () => {
+        outputChannel.dispose();
+        await setMinLevel(undefined);
+    });
+
+    test('Defaults to info', () => {
+        outputChannel.appendLog('trace message', { level: 'trace' });
+        outputChannel.appendLog('debug message', { level: 'debug' });
+        outputChannel.appendLog('info message');
+        outputChannel.appendLog('warning message', { level: 'warning' });
+        outputChannel.appendLog('error message', { level: 'error' });
+        assert.deepStrictEqual(lines, ['info message', '[Warning]: warning message', '[Error]: error message']);
+    });
+
+    test('Minimum level setting', async () => {
+        await setMinLevel('trace');
+        outputChannel.appendLog('trace message', { level: 'trace' });
+        await setMinLevel('error');
+        outputChannel.appendLog('warning message', { level: 'warning' });
+        outputChannel.appendLog('error message', { level: 'error' });
+        assert.deepStrictEqual(lines, ['[Trace]: trace message', '[Error]: error message']);
+    });
+
+    test('Resource name and data', () => {
+        outputChannel.appendLog('Deploying...', { resourceName: 'site1', level: 'debug', data: { attempt: 1 } });
+        outputChannel.appendLog('Deployed.', { resourceName: 'site1', data: { id: 'id1' } });
+        assert.deepStrictEqual(lines, ['site1: Deployed. {"id":"id1"}']);
+    });
+});
@@ -0,0 +1,112 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as types from '../index';
+import { AzExtPagedParentTreeItem } from '../src/treeDataProvider/AzExtPagedParentTreeItem';
+import { AzExtParentTreeItem } from '../src/treeDataProvider/AzExtParentTreeItem';
+import { AzExtTreeDataProvider } from '../src/treeDataProvider/AzExtTreeDataProvider';
+import { AzExtTreeItem } from '../src/treeDataProvider/AzExtTreeItem';
+import { GenericTreeItem } from '../src/treeDataProvider/GenericTreeItem';
+import { assertThrowsAsync } from './assertThrowsAsync';
+
+class PagedTreeItem extends AzExtPagedParentTreeItem<string> {
+    public label: string = 'paged';
+    public contextValue: string = 'paged';
+    public listCalls: string[] = [];
+
+    private _pages: string[][];
+
+    constructor(pages: string[][]) {
+        super(undefined);
+        this._pages = pages;
+    }
+
+    public async listFirstPageImpl(): Promise<types.IPartialList<string>> {
+        this.listCalls.push('first');
+        return this.getPage(0);
+    }
+
+    public async listNextPageImpl(nextLink: string): Promise<types.IPartialList<string>> {
+        this.listCalls.push(nextLink);
+        return this.getPage(Number(nextLink));
+    }
+
+    public async createTreeItemsImpl(sources: string[]): Promise<AzExtTreeItem[]> {
+        return sources.map(s => new GenericTreeItem(this, { label: s, contextValue: 'source' }));
+    }
+
+    public compareChildrenImpl(): number {
+        return 0; // preserve the order of the pages
+    }
+
+    private getPage(index: number): types.IPartialList<string> {
+        const page: types.IPartialList<string> = [...this._pages[index]];
+        if (index + 1 < this._pages.length) {
+            page.nextLink = String(index + 1);
+        }
+        return page;
+    }
+}
+
+suite("AzExtPagedParentTreeItem", () => {
+    const context: types.IActionContext = { errorHandling: { issueProperties: {} }, telemetry: { measurements: {}, properties: {} } };
+
+    function createTreeItem(pages: string[][], pageSize?: number): PagedTreeItem {
+        const treeItem: PagedTreeItem = new PagedTreeItem(pages);
+        treeItem.pageSize = pageSize;
+        // tslint:disable-next-line: no-unused-expression
+        new AzExtTreeDataProvider(treeItem, 'test.loadMore');
+        return treeItem;
+    }
+
+    async function getLabels(treeItem: AzExtParentTreeItem): Promise<string[]> {
+        return (await treeItem.getCachedChildren(context)).map(c => c.label);
+    }
+
+    test("Displays each page as-is by default", async () => {
+        const treeItem: PagedTreeItem = createTreeItem([['a', 'b'], [], ['c']]);
+        assert.deepEqual(await getLabels(treeItem), ['a', 'b']);
+        assert.equal(treeItem.hasMoreChildrenImpl(), true);
+
+        await treeItem.loadMoreChildren(context);
+        assert.deepEqual(await getLabels(treeItem), ['a', 'b', 'c'], 'Empty pages should be skipped');
+        assert.equal(treeItem.hasMoreChildrenImpl(), false);
+        assert.deepEqual(treeItem.listCalls, ['first', '1', '2']);
+    });
+
+    test("Splits and combines pages to match page size", async () => {
+        const treeItem: PagedTreeItem = createTreeItem([['a', 'b', 'c'], ['d'], ['e', 'f']], 2);
+        assert.deepEqual(await getLabels(treeItem), ['a', 'b']);
+        assert.deepEqual(treeItem.listCalls, ['first']);
+
+        await treeItem.loadMoreChildren(context);
+        assert.deepEqual(await getLabels(treeItem), ['a', 'b', 'c', 'd']);
+        assert.deepEqual(treeItem.listCalls, ['first', '1']);
+
+        await treeItem.loadMoreChildren(context);
+        assert.deepEqual(await getLabels(treeItem), ['a', 'b', 'c', 'd', 'e', 'f']);
+        assert.equal(treeItem.hasMoreChildrenImpl(), false);
+    });
+
+    test("Starts over when the cache is cleared", async () => {
+        const treeItem: PagedTreeItem = createTreeItem([['a'], ['b']]);
+        await treeItem.loadAllChildren(context);
+        assert.deepEqual(await getLabels(treeItem), ['a', 'b']);
+
+        treeItem.clearCache();
+        assert.deepEqual(await getLabels(treeItem), ['a']);
+        assert.equal(treeItem.hasMoreChildrenImpl(), true);
+        assert.deepEqual(treeItem.listCalls, ['first', '1', 'first']);
+    });
+
+    test("Rejects a page size less than 1", async () => {
+        for (const pageSize of [0, -1, NaN]) {
+            const treeItem: PagedTreeItem = createTreeItem([['a'], ['b']], pageSize);
+            await assertThrowsAsync(async () => await treeItem.getCachedChildren(context), /Invalid page size/);
+            assert.deepEqual(treeItem.listCalls, []);
+        }
+    });
+});
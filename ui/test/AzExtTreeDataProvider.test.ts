@@ -4,10 +4,13 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as assert from 'assert';
+import { CancellationTokenSource, Disposable, Memento } from 'vscode';
 import * as types from '../index';
-import { AzExtParentTreeItem } from '../src/treeDataProvider/AzExtParentTreeItem';
+import { AzExtParentTreeItem, CachedTreeItem } from '../src/treeDataProvider/AzExtParentTreeItem';
 import { AzExtTreeDataProvider } from '../src/treeDataProvider/AzExtTreeDataProvider';
 import { AzExtTreeItem } from '../src/treeDataProvider/AzExtTreeItem';
+import { delay } from '../src/utils/delay';
+import { nonNullValue } from '../src/utils/nonNull';
 
 // tslint:disable: max-classes-per-file
 
@@ -71,6 +74,7 @@ class LeafTreeItem extends AzExtTreeItem {
     }
 }
 
+// tslint:disable-next-line: max-func-body-length
 suite("AzExtTreeDataProvider", () => {
     let root: RootTreeItem;
     let tree: AzExtTreeDataProvider;
@@ -107,6 +111,196 @@ suite("AzExtTreeDataProvider", () => {
         assert.equal(first.hasMoreChildrenImpl(), false);
     });
 
+    test("Filter", async () => {
+        await resetTree();
+
+        const middles: MiddleTreeItem[] = <MiddleTreeItem[]>await root.getCachedChildren(context);
+        await middles[0].getCachedChildren(context);
+
+        try {
+            tree.setFilter({ pattern: '2' });
+            assert.deepEqual(await getChildLabels(), ['Filtered by "2"', '1', '2', 'Load More...'], 'Middle "1" should be displayed because it has a matching child');
+            assert.deepEqual(await getChildLabels(middles[0]), ['2', 'Load More...']);
+            assert.deepEqual(await getChildLabels(middles[1]), ['1', '2', 'Load More...'], 'All children of a matching item should be displayed');
+
+            await root.loadMoreChildren(context);
+            tree.setFilter({ pattern: '3' });
+            assert.deepEqual(await getChildLabels(), ['Filtered by "3"', '3', '4', 'Load More...'], 'Middle "4" should be displayed because its children have not been loaded');
+
+            await middles[0].loadAllChildren(context);
+            tree.setFilter({ pattern: '1*0' });
+            assert.deepEqual(await getChildLabels(middles[0]), ['10']);
+        } finally {
+            tree.setFilter(undefined);
+        }
+
+        assert.deepEqual(await getChildLabels(), ['1', '2', '3', '4', 'Load More...']);
+    });
+
+    test("Refresh coalescing", async () => {
+        // Use a new tree so that there are no pending refreshes from other tests
+        const testRoot: RootTreeItem = new RootTreeItem(undefined);
+        const testTree: AzExtTreeDataProvider = new AzExtTreeDataProvider(testRoot, 'test.loadMore');
+        const middle1: MiddleTreeItem = new MiddleTreeItem(testRoot, 1);
+        const middle2: MiddleTreeItem = new MiddleTreeItem(testRoot, 2);
+
+        /**
+         * Returns the change events fired together once the refreshes are coalesced, without depending on how long that takes
+         */
+        async function getChangedItems(refresh: () => Promise<void>): Promise<(AzExtTreeItem | undefined)[]> {
+            const changedItems: (AzExtTreeItem | undefined)[] = [];
+            let disposable: Disposable | undefined;
+            const changed: Promise<void> = new Promise((resolve: () => void): void => {
+                disposable = testTree.onDidChangeTreeData(ti => {
+                    changedItems.push(ti);
+                    resolve();
+                });
+            });
+            try {
+                await refresh();
+                assert.deepStrictEqual(changedItems, [], 'Expected no events until the refreshes are coalesced');
+                await changed;
+                return changedItems;
+            } finally {
+                nonNullValue(disposable).dispose();
+            }
+        }
+
+        assert.deepStrictEqual(await getChangedItems(async () => {
+            testTree.refreshUIOnly(new LeafTreeItem(middle1, 1));
+            testTree.refreshUIOnly(middle1);
+            testTree.refreshUIOnly(middle2);
+            testTree.refreshUIOnly(middle2);
+        }), [middle1, middle2], 'Expected one event per item, skipping items whose ancestor is refreshed');
+
+        assert.deepStrictEqual(await getChangedItems(async () => {
+            testTree.refreshUIOnly(middle1);
+            testTree.refreshUIOnly(testRoot);
+        }), [undefined], 'Expected a single event for the whole tree when the root is refreshed');
+
+        assert.deepStrictEqual(await getChangedItems(async () => {
+            await testTree.refresh(middle1);
+        }), [undefined], 'Expected a single event for the whole tree when the children of an item are replaced');
+    });
+
+    test("Children snapshot", async () => {
+        const persistence: TestMemento = new TestMemento();
+        const firstSessionRoot: RootTreeItem = new RootTreeItem(undefined);
+        firstSessionRoot.childrenSnapshotPersistence = persistence;
+        const firstSessionTree: AzExtTreeDataProvider = new AzExtTreeDataProvider(firstSessionRoot, 'test.loadMore');
+        assert.deepEqual((await firstSessionTree.getChildren()).map(c => c.label), ['1', '2', 'Load More...'], 'Nothing should be cached during the first session');
+
+        const secondSessionRoot: RootTreeItem = new RootTreeItem(undefined);
+        secondSessionRoot.childrenSnapshotPersistence = persistence;
+        const secondSessionTree: AzExtTreeDataProvider = new AzExtTreeDataProvider(secondSessionRoot, 'test.loadMore');
+        const changedItems: (AzExtTreeItem | undefined)[] = [];
+        const disposable: Disposable = secondSessionTree.onDidChangeTreeData(ti => changedItems.push(ti));
+        try {
+            const cachedChildren: AzExtTreeItem[] = await secondSessionTree.getChildren();
+            assert.ok(cachedChildren.every(c => c instanceof CachedTreeItem));
+            assert.deepEqual(cachedChildren.map(c => c.label), ['1', '2']);
+            assert.deepEqual(cachedChildren.map(c => c.fullId), ['/1', '/2']);
+            assert.deepEqual(cachedChildren.map(c => c.effectiveDescription), ['(cached)', '(cached)']);
+            assert.ok(cachedChildren.every(c => c.contextValue === CachedTreeItem.contextValue), 'Cached items should not have the real context value');
+
+            await delay(100);
+            assert.deepStrictEqual(changedItems, [undefined], 'Expected the tree to refresh once the real children are loaded');
+
+            const children: AzExtTreeItem[] = await secondSessionTree.getChildren();
+            assert.ok(!children.some(c => c instanceof CachedTreeItem));
+            assert.deepEqual(children.map(c => c.label), ['1', '2', 'Load More...']);
+        } finally {
+            disposable.dispose();
+        }
+    });
+
+    test("Polling transitional items", async () => {
+        await resetTree();
+        const middles: MiddleTreeItem[] = <MiddleTreeItem[]>await root.getCachedChildren(context);
+        const item: MiddleTreeItem = middles[0];
+        let refreshCount: number = 0;
+        item.transitionalState = 'Starting';
+        item.refreshImpl = async (): Promise<void> => {
+            refreshCount += 1;
+            item.transitionalState = undefined;
+        };
+
+        const changedItems: (AzExtTreeItem | undefined)[] = [];
+        const disposable: Disposable = tree.onDidChangeTreeData(ti => changedItems.push(ti));
+        try {
+            await delay(100); // Wait for refreshes from resetting the tree
+            changedItems.splice(0);
+
+            tree.getTreeItem(item);
+            tree.getTreeItem(item);
+            await delay(1200);
+            assert.equal(refreshCount, 1, 'Expected a single poller, which stops once the state settles');
+            await delay(100);
+            assert.deepStrictEqual(changedItems, [item], 'Expected a single refresh of the item');
+        } finally {
+            disposable.dispose();
+            item.refreshImpl = undefined;
+        }
+    });
+
+    test("Polling stops when tree is disposed", async () => {
+        await resetTree();
+        const middles: MiddleTreeItem[] = <MiddleTreeItem[]>await root.getCachedChildren(context);
+        const item: MiddleTreeItem = middles[0];
+        let refreshCount: number = 0;
+        item.transitionalState = 'Deploying';
+        item.refreshImpl = async (): Promise<void> => {
+            refreshCount += 1;
+        };
+
+        try {
+            tree.getTreeItem(item);
+            tree.dispose();
+            await delay(1200);
+            assert.equal(refreshCount, 0);
+        } finally {
+            item.transitionalState = undefined;
+            item.refreshImpl = undefined;
+        }
+    });
+
+    test("Drag and drop", async () => {
+        await resetTree();
+        const middles: MiddleTreeItem[] = <MiddleTreeItem[]>await root.getCachedChildren(context);
+        const drops: types.ITreeItemDrop[] = [];
+        middles[0].onDropImpl = async (_context: types.IActionContext, drop: types.ITreeItemDrop): Promise<void> => {
+            drops.push(drop);
+        };
+
+        try {
+            const dataTransfer: TestDataTransfer = new TestDataTransfer();
+            tree.dragAndDropController.handleDrag([middles[0], middles[1]], dataTransfer, new CancellationTokenSource().token);
+            dataTransfer.set('text/uri-list', { value: undefined, asString: async () => '# comment\r\nfile:///folder1\r\nfile:///folder2' });
+            await tree.dragAndDropController.handleDrop(middles[0], dataTransfer, new CancellationTokenSource().token);
+            assert.equal(drops.length, 1);
+            assert.deepStrictEqual(drops[0].treeItems, [middles[1]], 'The target should be excluded from the dropped items');
+            assert.deepStrictEqual(drops[0].uris.map(u => u.toString()), ['file:///folder1', 'file:///folder2']);
+
+            // Simulate a drop from another window, where only the string value is available
+            const fullIds: string = await nonNullValue(dataTransfer.get('application/vnd.azext.treeitems')).asString();
+            const serializedDataTransfer: TestDataTransfer = new TestDataTransfer();
+            serializedDataTransfer.set('application/vnd.azext.treeitems', { value: undefined, asString: async () => fullIds });
+            await tree.dragAndDropController.handleDrop(middles[0], serializedDataTransfer, new CancellationTokenSource().token);
+            assert.equal(drops.length, 2);
+            assert.deepStrictEqual(drops[1].treeItems, [middles[1]]);
+            assert.deepStrictEqual(drops[1].uris, []);
+
+            await tree.dragAndDropController.handleDrop(middles[1], dataTransfer, new CancellationTokenSource().token);
+            assert.equal(drops.length, 2, 'Items without onDropImpl should ignore drops');
+        } finally {
+            middles[0].onDropImpl = undefined;
+        }
+    });
+
+    async function getChildLabels(treeItem?: AzExtParentTreeItem): Promise<string[]> {
+        return (await tree.getChildren(treeItem)).map(c => c.label);
+    }
+
     async function resetTree(): Promise<void> {
         await root.refresh();
     }
@@ -159,3 +353,30 @@ suite("AzExtTreeDataProvider", () => {
         });
     }
 });
+
+class TestMemento implements Memento {
+    private _values: Map<string, unknown> = new Map();
+
+    // tslint:disable-next-line: no-reserved-keywords
+    public get<T>(key: string, defaultValue?: T): T | undefined {
+        return this._values.has(key) ? <T>this._values.get(key) : defaultValue;
+    }
+
+    public async update(key: string, value: unknown): Promise<void> {
+        this._values.set(key, value);
+    }
+}
+
+class TestDataTransfer implements types.IAzExtDataTransfer {
+    private _items: Map<string, types.IAzExtDataTransferItem> = new Map();
+
+    // tslint:disable-next-line: no-reserved-keywords
+    public get(mimeType: string): types.IAzExtDataTransferItem | undefined {
+        return this._items.get(mimeType);
+    }
+
+    // tslint:disable-next-line: no-reserved-keywords
+    public set(mimeType: string, value: types.IAzExtDataTransferItem): void {
+        this._items.set(mimeType, value);
+    }
+}
@@ -0,0 +1,263 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { Disposable, FileChangeEvent, FileChangeType, FileSystemError, FileType, Uri } from 'vscode';
+import * as types from '../index';
+import { AzExtTreeFileSystem } from '../src/AzExtTreeFileSystem';
+import { AzExtParentTreeItem } from '../src/treeDataProvider/AzExtParentTreeItem';
+import { AzExtTreeDataProvider } from '../src/treeDataProvider/AzExtTreeDataProvider';
+import { AzExtTreeItem } from '../src/treeDataProvider/AzExtTreeItem';
+import { delay } from '../src/utils/delay';
+import { assertThrowsAsync } from './assertThrowsAsync';
+
+// tslint:disable: max-classes-per-file
+
+interface ITestItem extends AzExtTreeItem {
+    filePath: string;
+}
+
+class FolderItem extends AzExtParentTreeItem implements ITestItem {
+    public label: string;
+    public contextValue: string = 'folder';
+    public filePath: string;
+    public children: ITestItem[] = [];
+
+    constructor(parent: AzExtParentTreeItem | undefined, label: string, filePath: string) {
+        super(parent);
+        this.label = label;
+        this.filePath = filePath;
+    }
+
+    public async loadMoreChildrenImpl(): Promise<AzExtTreeItem[]> {
+        return this.children;
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public addFolder(label: string): FolderItem {
+        const folder: FolderItem = new FolderItem(this, label, `${this.filePath}/${label}`);
+        this.children.push(folder);
+        return folder;
+    }
+
+    public addFile(label: string): FileItem {
+        const file: FileItem = new FileItem(this, label, `${this.filePath}/${label}`);
+        this.children.push(file);
+        return file;
+    }
+}
+
+class FileItem extends AzExtTreeItem implements ITestItem {
+    public label: string;
+    public contextValue: string = 'file';
+    public filePath: string;
+
+    constructor(parent: AzExtParentTreeItem, label: string, filePath: string) {
+        super(parent);
+        this.label = label;
+        this.filePath = filePath;
+    }
+}
+
+class TestFileSystem extends AzExtTreeFileSystem<ITestItem> {
+    public scheme: string = 'azureextensionuitest';
+    public calls: string[] = [];
+    public error: unknown;
+    public mtime: number = 0;
+    public statCount: number = 0;
+    public onReadFile?: () => void;
+
+    public getFilePath(item: ITestItem): string {
+        return item.filePath;
+    }
+
+    public async statImpl(_context: types.IActionContext, item: ITestItem): Promise<types.AzExtFileStat> {
+        this.statCount += 1;
+        return { type: item instanceof FolderItem ? FileType.Directory : FileType.File, ctime: 0, mtime: this.mtime, size: 0 };
+    }
+
+    public async readFileImpl(_context: types.IActionContext, item: ITestItem): Promise<Uint8Array> {
+        if (this.onReadFile) {
+            this.onReadFile();
+        }
+        return Buffer.from(item.label);
+    }
+
+    public async writeFileImpl(_context: types.IActionContext, item: ITestItem): Promise<void> {
+        if (this.error !== undefined) {
+            throw this.error;
+        }
+        this.calls.push(`writeFile ${item.label}`);
+        this.mtime += 1;
+    }
+
+    public async readDirectoryImpl(_context: types.IActionContext, item: ITestItem): Promise<[string, FileType][]> {
+        return (<FolderItem>item).children.map(c => <[string, FileType]>[c.label, c instanceof FolderItem ? FileType.Directory : FileType.File]);
+    }
+
+    public async createDirectoryImpl(_context: types.IActionContext, parentItem: ITestItem, name: string): Promise<void> {
+        this.calls.push(`createDirectory ${parentItem.label} ${name}`);
+    }
+
+    public async deleteImpl(_context: types.IActionContext, item: ITestItem, options: { recursive: boolean }): Promise<void> {
+        if (this.error !== undefined) {
+            throw this.error;
+        }
+        this.calls.push(`delete ${item.label} ${options.recursive}`);
+    }
+
+    public async renameImpl(_context: types.IActionContext, item: ITestItem, newParentItem: ITestItem, newName: string): Promise<void> {
+        this.calls.push(`rename ${item.label} ${newParentItem.label} ${newName}`);
+    }
+}
+
+// tslint:disable-next-line: max-func-body-length
+suite('AzExtTreeFileSystem', () => {
+    let tree: AzExtTreeDataProvider;
+    let fileSystem: TestFileSystem;
+    let wwwroot: FolderItem;
+    let wwwrootUri: Uri;
+
+    suiteSetup(() => {
+        const root: FolderItem = new FolderItem(undefined, 'root', '');
+        tree = new AzExtTreeDataProvider(root, 'test.loadMore');
+        wwwroot = root.addFolder('wwwroot');
+        wwwroot.addFile('index.html');
+        wwwroot.addFolder('css').addFile('site.css');
+
+        fileSystem = new TestFileSystem(tree);
+        wwwrootUri = fileSystem.getUri(wwwroot);
+    });
+
+    setup(() => {
+        fileSystem.calls = [];
+        fileSystem.error = undefined;
+        fileSystem.watchIntervalMs = undefined;
+        fileSystem.onReadFile = undefined;
+    });
+
+    function getChildUri(relativePath: string): Uri {
+        return wwwrootUri.with({ path: `${wwwrootUri.path}/${relativePath}` });
+    }
+
+    test('readDirectory', async () => {
+        assert.deepEqual(await fileSystem.readDirectory(wwwrootUri), [['index.html', FileType.File], ['css', FileType.Directory]]);
+        assert.deepEqual(await fileSystem.readDirectory(getChildUri('css')), [['site.css', FileType.File]]);
+    });
+
+    test('Resolves items in a directory by path', async () => {
+        assert.equal(Buffer.from(await fileSystem.readFile(getChildUri('index.html'))).toString(), 'index.html');
+        assert.equal(Buffer.from(await fileSystem.readFile(getChildUri('css/site.css'))).toString(), 'site.css');
+        await assertThrowsAsync(async () => await fileSystem.readFile(getChildUri('css/missing.css')), (error: Error) => error instanceof FileSystemError && error.name.includes('FileNotFound'));
+    });
+
+    test('Does not resolve paths outside of the item', async () => {
+        const otherUri: Uri = wwwrootUri.with({ path: '/other/index.html' });
+        await assertThrowsAsync(async () => await fileSystem.readFile(otherUri), (error: Error) => error instanceof FileSystemError && error.name.includes('FileNotFound'));
+    });
+
+    test('createDirectory', async () => {
+        await fileSystem.createDirectory(getChildUri('css/fonts'));
+        assert.deepEqual(fileSystem.calls, ['createDirectory css fonts']);
+    });
+
+    test('delete', async () => {
+        await fileSystem.delete(getChildUri('css'), { recursive: true });
+        assert.deepEqual(fileSystem.calls, ['delete css true']);
+    });
+
+    test('rename', async () => {
+        await fileSystem.rename(getChildUri('index.html'), getChildUri('css/index2.html'), { overwrite: false });
+        assert.deepEqual(fileSystem.calls, ['rename index.html css index2.html']);
+    });
+
+    test('Maps errors to FileSystemErrors', async () => {
+        fileSystem.error = { statusCode: 404, message: 'Not found' };
+        await assertThrowsAsync(async () => await fileSystem.delete(getChildUri('index.html'), { recursive: false }), (error: Error) => error instanceof FileSystemError && error.name.includes('FileNotFound'));
+
+        fileSystem.error = { statusCode: 412, message: 'Precondition failed' };
+        await assertThrowsAsync(async () => await fileSystem.delete(getChildUri('index.html'), { recursive: false }), (error: Error) => error instanceof FileSystemError && error.name.includes('FileExists'));
+
+        fileSystem.error = { statusCode: 409, message: 'Already exists' };
+        await assertThrowsAsync(async () => await fileSystem.delete(getChildUri('index.html'), { recursive: false }), (error: Error) => error instanceof FileSystemError && error.name.includes('FileExists') && !/Failed to save/.test(error.message));
+
+        fileSystem.error = new Error('Something else');
+        await assertThrowsAsync(async () => await fileSystem.delete(getChildUri('index.html'), { recursive: false }), /Something else/);
+    });
+
+    test('Fails the save if writing the file fails', async () => {
+        fileSystem.error = new Error('Failed to write');
+        await assertThrowsAsync(async () => await fileSystem.writeFile(getChildUri('index.html'), Buffer.from('new')), /Failed to write/);
+
+        fileSystem.error = { statusCode: 412, message: 'Precondition failed' };
+        await assertThrowsAsync(async () => await fileSystem.writeFile(getChildUri('index.html'), Buffer.from('new')), (error: Error) => error instanceof FileSystemError && /changed by someone else/.test(error.message));
+    });
+
+    test('Detects remote changes', async () => {
+        fileSystem.watchIntervalMs = 10;
+        const uri: Uri = getChildUri('index.html');
+        const events: FileChangeEvent[] = [];
+        const listener: Disposable = fileSystem.onDidChangeFile(e => events.push(...e));
+        const watcher: Disposable = fileSystem.watch(uri);
+        try {
+            await fileSystem.readFile(uri);
+            await delay(50);
+            assert.deepEqual(events, [], 'Should not fire if nothing changed');
+
+            fileSystem.mtime += 1; // Simulates someone else saving the file
+            await delay(50);
+            assert.deepEqual(events.map(e => [e.type, e.uri.toString()]), [[FileChangeType.Changed, uri.toString()]]);
+
+            await assertThrowsAsync(async () => await fileSystem.writeFile(uri, Buffer.from('new')), (error: Error) => error instanceof FileSystemError && error.name.includes('FileExists'));
+            assert.deepEqual(fileSystem.calls, [], 'Should not overwrite the remote changes');
+
+            await fileSystem.readFile(uri);
+            await fileSystem.writeFile(uri, Buffer.from('new'));
+            await fileSystem.writeFile(uri, Buffer.from('newer'));
+            assert.deepEqual(fileSystem.calls, ['writeFile index.html', 'writeFile index.html'], 'Our own writes should not cause a conflict');
+        } finally {
+            watcher.dispose();
+            listener.dispose();
+        }
+    });
+
+    test('Detects a remote change made while reading', async () => {
+        fileSystem.watchIntervalMs = 10;
+        const uri: Uri = getChildUri('index.html');
+        fileSystem.onReadFile = () => { fileSystem.mtime += 1; }; // Simulates someone else saving the file right after it was read
+        await fileSystem.readFile(uri);
+        fileSystem.onReadFile = undefined;
+
+        await assertThrowsAsync(async () => await fileSystem.writeFile(uri, Buffer.from('new')), (error: Error) => error instanceof FileSystemError && error.name.includes('FileExists'));
+        assert.deepEqual(fileSystem.calls, [], 'Should not overwrite the remote changes');
+    });
+
+    test('Forgets the read version of a deleted file', async () => {
+        fileSystem.watchIntervalMs = 10;
+        const uri: Uri = getChildUri('index.html');
+        await fileSystem.readFile(uri);
+        fileSystem.mtime += 1;
+        await fileSystem.delete(uri, { recursive: false });
+
+        await fileSystem.writeFile(uri, Buffer.from('new'));
+        assert.deepEqual(fileSystem.calls, ['delete index.html false', 'writeFile index.html'], 'Should not conflict with the deleted file');
+    });
+
+    test('Stops polling once disposed', async () => {
+        const disposedFileSystem: TestFileSystem = new TestFileSystem(tree);
+        disposedFileSystem.watchIntervalMs = 10;
+        disposedFileSystem.watch(getChildUri('index.html'));
+        await delay(50);
+        assert.ok(disposedFileSystem.statCount > 0, 'Should poll while watching');
+
+        disposedFileSystem.dispose();
+        disposedFileSystem.statCount = 0;
+        await delay(50);
+        assert.equal(disposedFileSystem.statCount, 0, 'Should not poll after being disposed');
+    });
+});
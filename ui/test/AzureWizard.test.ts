@@ -4,10 +4,15 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { CancellationTokenSource } from 'vscode';
 import { TestInput } from 'vscode-azureextensiondev';
 import * as types from '../index';
-import { AzureWizard, AzureWizardExecuteStep, AzureWizardPromptStep } from '../src';
+import { AzureUserInput, AzureWizard, AzureWizardExecuteStep, AzureWizardPromptStep, DialogResponses, parseError } from '../src';
 import { ext } from '../src/extensionVariables';
+import { delay } from '../src/utils/delay';
+import { assertThrowsAsync } from './assertThrowsAsync';
 import { testUserInput } from './global.test';
 
 // tslint:disable: max-classes-per-file
@@ -43,6 +48,22 @@ class QuickPickStep2 extends QuickPickStepBase {
     protected key: string = 'quickPick2';
 }
 
+class TestCredentials {
+    public token: string = 'token';
+}
+
+/**
+ * Sets a value that can be saved in a session along with one that can't
+ */
+class SubscriptionStep extends QuickPickStepBase {
+    protected key: string = 'subscriptionId';
+
+    public async prompt(wizardContext: ITestWizardContext): Promise<void> {
+        await super.prompt(wizardContext);
+        wizardContext.credentials = new TestCredentials();
+    }
+}
+
 class SubQuickPickStep1 extends QuickPickStepBase {
     protected key: string = 'subQuickPick1';
 }
@@ -73,6 +94,30 @@ abstract class InputBoxStepBase extends AzureWizardPromptStep<ITestWizardContext
     }
 }
 
+class ValidatedInputBoxStep extends AzureWizardPromptStep<ITestWizardContext> {
+    private _key: string = 'validatedInputBox';
+    public async prompt(wizardContext: ITestWizardContext): Promise<void> {
+        wizardContext[this._key] = await ext.ui.showInputBox({
+            validateInput: (value: string): string | undefined => value.length < 3 ? 'Value must be at least 3 characters.' : undefined
+        });
+    }
+
+    public shouldPrompt(wizardContext: ITestWizardContext): boolean {
+        return !wizardContext[this._key];
+    }
+}
+
+class WarningAndOpenDialogStep extends AzureWizardPromptStep<ITestWizardContext> {
+    public async prompt(wizardContext: ITestWizardContext): Promise<void> {
+        wizardContext.warning = (await ext.ui.showWarningMessage('Are you sure?', { modal: true }, DialogResponses.yes, DialogResponses.no)).title;
+        wizardContext.openDialog = (await ext.ui.showOpenDialog({})).map(uri => uri.fsPath);
+    }
+
+    public shouldPrompt(wizardContext: ITestWizardContext): boolean {
+        return !wizardContext.warning;
+    }
+}
+
 class InputBoxStep1 extends InputBoxStepBase {
     protected key: string = 'inputBox1';
 }
@@ -94,6 +139,10 @@ class ExecuteStep2 extends AzureWizardExecuteStep<ITestWizardContext> {
         wizardContext[this._key] = 'executeValue2';
     }
 
+    public describe(): types.IResourceDescription {
+        return { type: 'Test/execute2', name: 'executeValue2' };
+    }
+
     public shouldExecute(wizardContext: ITestWizardContext): boolean {
         return !wizardContext[this._key];
     }
@@ -137,6 +186,177 @@ class SubExecuteStep extends AzureWizardExecuteStep<ITestWizardContext> {
     }
 }
 
+const rollbackKey: string = 'rollback';
+class ExecuteStepWithRollback extends AzureWizardExecuteStep<ITestWizardContext> {
+    public priority: number = 100;
+
+    public async execute(wizardContext: ITestWizardContext): Promise<void> {
+        wizardContext[rollbackKey] = 'created';
+    }
+
+    public async rollback(wizardContext: ITestWizardContext): Promise<void> {
+        wizardContext[rollbackKey] = 'deleted';
+    }
+
+    public shouldExecute(wizardContext: ITestWizardContext): boolean {
+        return !wizardContext[rollbackKey];
+    }
+}
+
+class CancellingExecuteStep extends AzureWizardExecuteStep<ITestWizardContext> {
+    public priority: number = 150;
+
+    public constructor(private readonly _source: CancellationTokenSource) {
+        super();
+    }
+
+    public async execute(): Promise<void> {
+        this._source.cancel();
+    }
+
+    public shouldExecute(): boolean {
+        return true;
+    }
+}
+
+class FailingExecuteStep extends AzureWizardExecuteStep<ITestWizardContext> {
+    public priority: number = 200;
+
+    public async execute(): Promise<void> {
+        throw new Error('Execute failed.');
+    }
+
+    public shouldExecute(): boolean {
+        return true;
+    }
+}
+
+class AlwaysExecuteStep extends AzureWizardExecuteStep<ITestWizardContext> {
+    public priority: number = 100;
+
+    public constructor(private readonly _executions: string[]) {
+        super();
+    }
+
+    public async execute(): Promise<void> {
+        this._executions.push(this.constructor.name);
+    }
+
+    public shouldExecute(): boolean {
+        return true;
+    }
+}
+
+const executionLogKey: string = 'executionLog';
+
+/**
+ * Records when steps start and end, and lets a step wait for another step to start. This shows that steps execute in parallel without relying on timing
+ */
+class ExecutionLog {
+    public readonly entries: string[] = [];
+    private readonly _waiters: [string, () => void][] = [];
+
+    public add(entry: string): void {
+        this.entries.push(entry);
+        for (const [waitingFor, resolve] of this._waiters) {
+            if (waitingFor === entry) {
+                resolve();
+            }
+        }
+    }
+
+    public async waitFor(entry: string): Promise<void> {
+        if (this.entries.indexOf(entry) === -1) {
+            // tslint:disable-next-line:promise-must-complete
+            await new Promise<void>((resolve: () => void): void => { this._waiters.push([entry, resolve]); });
+        }
+    }
+}
+
+async function logExecution(wizardContext: ITestWizardContext, name: string, finishAfter: string | undefined): Promise<void> {
+    const log: ExecutionLog = <ExecutionLog>wizardContext[executionLogKey];
+    log.add(`start-${name}`);
+    if (finishAfter !== undefined) {
+        // The wizard never finishes (and the test times out) unless the other step starts while this one is executing
+        await log.waitFor(finishAfter);
+    } else {
+        // Yields so that steps executing at the same time would interleave
+        await delay(0);
+    }
+    log.add(`end-${name}`);
+}
+
+abstract class ParallelExecuteStepBase extends AzureWizardExecuteStep<ITestWizardContext> {
+    public abstract produces: string[];
+    public abstract consumes: string[];
+    private readonly _finishAfter: string | undefined;
+
+    /**
+     * @param finishAfter An entry in the execution log (e.g. "start-parallel2") to wait for before finishing
+     */
+    public constructor(finishAfter?: string) {
+        super();
+        this._finishAfter = finishAfter;
+    }
+
+    public async execute(wizardContext: ITestWizardContext): Promise<void> {
+        await logExecution(wizardContext, this.produces[0], this._finishAfter);
+        wizardContext[this.produces[0]] = true;
+    }
+
+    public shouldExecute(wizardContext: ITestWizardContext): boolean {
+        return !wizardContext[this.produces[0]];
+    }
+}
+
+class ParallelExecuteStep1 extends ParallelExecuteStepBase {
+    public priority: number = 100;
+    public produces: string[] = ['parallel1'];
+    public consumes: string[] = [];
+}
+
+class ParallelExecuteStep2 extends ParallelExecuteStepBase {
+    public priority: number = 110;
+    public produces: string[] = ['parallel2'];
+    public consumes: string[] = [];
+}
+
+class DependentExecuteStep extends ParallelExecuteStepBase {
+    public priority: number = 120;
+    public produces: string[] = ['dependent'];
+    public consumes: string[] = ['parallel1'];
+}
+
+class SharedReaderExecuteStep extends ParallelExecuteStepBase {
+    public priority: number = 100;
+    public produces: string[] = ['sharedReader'];
+    public consumes: string[] = ['shared'];
+}
+
+class SharedWriterExecuteStep extends ParallelExecuteStepBase {
+    public priority: number = 110;
+    public produces: string[] = ['sharedWriter', 'shared'];
+    public consumes: string[] = [];
+}
+
+class SharedWriter2ExecuteStep extends ParallelExecuteStepBase {
+    public priority: number = 120;
+    public produces: string[] = ['sharedWriter2', 'shared'];
+    public consumes: string[] = [];
+}
+
+class UnannotatedExecuteStep extends AzureWizardExecuteStep<ITestWizardContext> {
+    public priority: number = 105;
+
+    public async execute(wizardContext: ITestWizardContext): Promise<void> {
+        await logExecution(wizardContext, 'unannotated', undefined);
+    }
+
+    public shouldExecute(): boolean {
+        return true;
+    }
+}
+
 class SubSubExecuteStep extends AzureWizardExecuteStep<ITestWizardContext> {
     public priority: number = 25;
 
@@ -657,4 +877,303 @@ suite("AzureWizard tests", () => {
             { quickPick1: 'Pick 3', quickPick2: 'Pick 1', execute1: 'executeValue1', subQuickPick1: undefined, subQuickPick2: undefined }
         );
     });
+
+    test("Summary confirm", async () => {
+        await validateWizard(
+            {
+                promptSteps: [new QuickPickStep1(), new InputBoxStep1()],
+                executeSteps: [new ExecuteStep1()],
+                showSummary: true
+            },
+            ['Pick 1', 'testValue', TestInput.UseDefaultValue],
+            { quickPick1: 'Pick 1', inputBox1: 'testValue', execute1: 'executeValue1' }
+        );
+    });
+
+    test("Summary jump to step", async () => {
+        await validateWizard(
+            {
+                promptSteps: [new QuickPickStep1(), new InputBoxStep1(), new QuickPickStep2()],
+                executeSteps: [new ExecuteStep1()],
+                showSummary: true
+            },
+            ['Pick 1', 'testValue', 'Pick 2', 'testValue', 'testValueChanged', 'Pick 3', TestInput.UseDefaultValue],
+            { quickPick1: 'Pick 1', inputBox1: 'testValueChanged', quickPick2: 'Pick 3', execute1: 'executeValue1' }
+        );
+    });
+
+    test("Summary back", async () => {
+        await validateWizard(
+            {
+                promptSteps: [new QuickPickStep1(), new InputBoxStep1()],
+                executeSteps: [new ExecuteStep1()],
+                showSummary: true
+            },
+            ['Pick 1', 'testValue', TestInput.BackButton, 'testValueChanged', TestInput.UseDefaultValue],
+            { quickPick1: 'Pick 1', inputBox1: 'testValueChanged', execute1: 'executeValue1' }
+        );
+    });
+});
+
+suite("AzureWizard plan tests", () => {
+    test("Plan describes steps without executing", async () => {
+        const context: ITestWizardContext = { telemetry: { properties: {}, measurements: {} }, errorHandling: { issueProperties: {} } };
+        const wizard: AzureWizard<ITestWizardContext> = new AzureWizard(context, {
+            promptSteps: [new InputBoxStep1()],
+            executeSteps: [new ExecuteStep2(), new ExecuteStep1()]
+        });
+        await testUserInput.runWithInputs(['testValue'], async () => {
+            await wizard.prompt();
+        });
+
+        const plan: types.IWizardPlanItem[] = await wizard.plan();
+        assert.deepEqual(plan, [{ step: 'ExecuteStep1' }, { step: 'ExecuteStep2', type: 'Test/execute2', name: 'executeValue2' }]);
+        assert.equal(context[executeKey1], undefined);
+        assert.equal(context[executeKey2], undefined);
+    });
+});
+
+suite("AzureWizard resume tests", () => {
+    const options: () => types.IWizardOptions<ITestWizardContext> = () => {
+        return { title: 'Resume test', resumable: true, promptSteps: [new QuickPickStep1(), new InputBoxStep1()] };
+    };
+
+    async function cancelAfterFirstStep(): Promise<void> {
+        const context: ITestWizardContext = { telemetry: { properties: {}, measurements: {} }, errorHandling: { issueProperties: {} } };
+        const wizard: AzureWizard<ITestWizardContext> = new AzureWizard(context, options());
+        await assertThrowsAsync(async () => await testUserInput.runWithInputs(['Pick 2'], async () => { await wizard.prompt(); }), /No more inputs/);
+    }
+
+    test("Resume previous session", async () => {
+        await cancelAfterFirstStep();
+        await validateWizard(options(), ['Resume', 'testValue'], { quickPick1: 'Pick 2', inputBox1: 'testValue' });
+        // The session is cleared once the wizard is finished
+        await validateWizard(options(), ['Pick 1', 'testValue'], { quickPick1: 'Pick 1', inputBox1: 'testValue' });
+    });
+
+    test("Start over", async () => {
+        await cancelAfterFirstStep();
+        await validateWizard(options(), ['Start over', 'Pick 3', 'testValue'], { quickPick1: 'Pick 3', inputBox1: 'testValue' });
+    });
+
+    test("Step with values that can't be saved prompts again", async () => {
+        const subscriptionOptions: () => types.IWizardOptions<ITestWizardContext> = () => {
+            return { title: 'Resume subscription test', resumable: true, promptSteps: [new SubscriptionStep(), new InputBoxStep1()] };
+        };
+        const context: ITestWizardContext = { telemetry: { properties: {}, measurements: {} }, errorHandling: { issueProperties: {} } };
+        const wizard: AzureWizard<ITestWizardContext> = new AzureWizard(context, subscriptionOptions());
+        await assertThrowsAsync(async () => await testUserInput.runWithInputs(['Pick 2'], async () => { await wizard.prompt(); }), /No more inputs/);
+
+        // The subscription id is not restored without its credentials
+        await validateWizard(subscriptionOptions(), ['Resume', 'Pick 3', 'testValue'], { subscriptionId: 'Pick 3', credentials: new TestCredentials(), inputBox1: 'testValue' });
+    });
+
+    test("Execute steps that finished in the previous session are skipped", async () => {
+        const executions: string[] = [];
+        const executeOptions: (lastStep: AzureWizardExecuteStep<ITestWizardContext>) => types.IWizardOptions<ITestWizardContext> = (lastStep: AzureWizardExecuteStep<ITestWizardContext>) => {
+            return { title: 'Resume execute test', resumable: true, promptSteps: [new QuickPickStep1()], executeSteps: [new AlwaysExecuteStep(executions), lastStep] };
+        };
+        const context: ITestWizardContext = { telemetry: { properties: {}, measurements: {} }, errorHandling: { issueProperties: {} } };
+        const wizard: AzureWizard<ITestWizardContext> = new AzureWizard(context, executeOptions(new FailingExecuteStep()));
+        await testUserInput.runWithInputs(['Pick 2'], async () => { await wizard.prompt(); });
+        await assertThrowsAsync(async () => await wizard.execute(), /Execute failed/);
+
+        await validateWizard(executeOptions(new ExecuteStep2()), ['Resume'], { quickPick1: 'Pick 2', execute2: 'executeValue2' });
+        assert.deepEqual(executions, ['AlwaysExecuteStep']);
+    });
+});
+
+async function getExecutionLog(executeSteps: AzureWizardExecuteStep<ITestWizardContext>[]): Promise<string[]> {
+    const context: ITestWizardContext = { telemetry: { properties: {}, measurements: {} }, errorHandling: { issueProperties: {} }, executionLog: new ExecutionLog() };
+    const wizard: AzureWizard<ITestWizardContext> = new AzureWizard(context, { executeSteps });
+    await wizard.execute();
+    return (<ExecutionLog>context[executionLogKey]).entries;
+}
+
+suite("AzureWizard parallel execute tests", () => {
+    test("Independent steps execute in parallel", async () => {
+        // Each step waits for the other one to start before finishing
+        const log: string[] = await getExecutionLog([new ParallelExecuteStep1('start-parallel2'), new ParallelExecuteStep2('start-parallel1')]);
+        assert.deepEqual(log.slice(0, 2), ['start-parallel1', 'start-parallel2']);
+    });
+
+    test("Dependent step waits for the step it consumes", async () => {
+        // parallel2 only finishes once the dependent step starts, so the dependent step must not wait for it
+        const log: string[] = await getExecutionLog([new DependentExecuteStep(), new ParallelExecuteStep2('start-dependent'), new ParallelExecuteStep1()]);
+        assert.ok(log.indexOf('start-dependent') > log.indexOf('end-parallel1'), 'The dependent step should start after the step it consumes');
+        assert.ok(log.indexOf('start-dependent') < log.indexOf('end-parallel2'), 'The dependent step should not wait for an unrelated step');
+    });
+
+    test("Step that writes a property waits for steps that read or write it", async () => {
+        const log: string[] = await getExecutionLog([new SharedWriter2ExecuteStep(), new SharedWriterExecuteStep(), new SharedReaderExecuteStep()]);
+        assert.deepEqual(log, ['start-sharedReader', 'end-sharedReader', 'start-sharedWriter', 'end-sharedWriter', 'start-sharedWriter2', 'end-sharedWriter2']);
+    });
+
+    test("Steps without dependencies execute one at a time", async () => {
+        const log: string[] = await getExecutionLog([new ParallelExecuteStep2(), new UnannotatedExecuteStep(), new ParallelExecuteStep1()]);
+        assert.deepEqual(log, ['start-parallel1', 'end-parallel1', 'start-unannotated', 'end-unannotated', 'start-parallel2', 'end-parallel2']);
+    });
+
+    test("Duplicate parallel step only executes once", async () => {
+        const log: string[] = await getExecutionLog([new ParallelExecuteStep1(), new ParallelExecuteStep1()]);
+        assert.deepEqual(log, ['start-parallel1', 'end-parallel1']);
+    });
+});
+
+async function validateRollback(input: string, expectedRollbackValue: string): Promise<void> {
+    const context: ITestWizardContext = { telemetry: { properties: {}, measurements: {} }, errorHandling: { issueProperties: {} } };
+    const wizard: AzureWizard<ITestWizardContext> = new AzureWizard(context, { executeSteps: [new FailingExecuteStep(), new ExecuteStepWithRollback()] });
+    await testUserInput.runWithInputs([input], async () => {
+        await assertThrowsAsync(async () => await wizard.execute(), /Execute failed/);
+    });
+    assert.equal(context[rollbackKey], expectedRollbackValue);
+    assert.equal(context.telemetry.properties.partialExecute, 'true');
+}
+
+suite("AzureWizard rollback tests", () => {
+    test("Rollback completed steps", async () => {
+        await validateRollback('Delete', 'deleted');
+    });
+
+    test("Cancel stops remaining steps and rolls back completed steps", async () => {
+        const source: CancellationTokenSource = new CancellationTokenSource();
+        const context: ITestWizardContext = { telemetry: { properties: {}, measurements: {} }, errorHandling: { issueProperties: {} } };
+        const wizard: AzureWizard<ITestWizardContext> = new AzureWizard(context, { executeSteps: [new ExecuteStep2(), new CancellingExecuteStep(source), new ExecuteStepWithRollback()], cancellationToken: source.token });
+        await testUserInput.runWithInputs(['Delete'], async () => {
+            await assertThrowsAsync(async () => await wizard.execute(), (error: Error) => parseError(error).isUserCancelledError);
+        });
+
+        assert.equal(context[executeKey2], undefined, 'Steps after the cancel should not execute');
+        assert.equal(context[rollbackKey], 'deleted');
+    });
+
+    test("Skip rollback", async () => {
+        await validateRollback('No', 'created');
+    });
+});
+
+async function validateWizardWithAnswers(options: types.IWizardOptions<ITestWizardContext>, expectedContext: Partial<ITestWizardContext>): Promise<void> {
+    const context: ITestWizardContext = { telemetry: { properties: {}, measurements: {} }, errorHandling: { issueProperties: {} } };
+    const wizard: AzureWizard<ITestWizardContext> = new AzureWizard(context, options);
+    await wizard.prompt();
+    await wizard.execute();
+    for (const key of Object.keys(expectedContext)) {
+        assert.deepEqual(context[key], expectedContext[key]);
+    }
+}
+
+// tslint:disable-next-line: max-func-body-length
+suite("AzureWizard non-interactive tests", () => {
+    // The answers are provided through `wizardUserInput`, which is only used by `AzureUserInput`
+    suiteSetup(() => {
+        ext.ui = new AzureUserInput(ext.context.globalState);
+    });
+
+    suiteTeardown(() => {
+        ext.ui = testUserInput;
+    });
+
+    test("Answers keyed by step", async () => {
+        await validateWizardWithAnswers(
+            {
+                promptSteps: [new QuickPickStep1(), new InputBoxStep1()],
+                executeSteps: [new ExecuteStep1()],
+                answers: { steps: { QuickPickStep1: 'Pick 2', InputBoxStep1: 'testValue' } }
+            },
+            { quickPick1: 'Pick 2', inputBox1: 'testValue', execute1: 'executeValue1' }
+        );
+    });
+
+    test("Answers keyed by context property", async () => {
+        await validateWizardWithAnswers(
+            {
+                promptSteps: [new QuickPickStep1(), new InputBoxStep1()],
+                executeSteps: [new ExecuteStep1()],
+                answers: { context: { quickPick1: 'Pick 3' }, steps: { InputBoxStep1: 'testValue' } }
+            },
+            { quickPick1: 'Pick 3', inputBox1: 'testValue', execute1: 'executeValue1' }
+        );
+    });
+
+    test("Answers for sub wizard", async () => {
+        await validateWizardWithAnswers(
+            {
+                promptSteps: [new QuickPickStepWithSubWizard()],
+                answers: { steps: { QuickPickStepWithSubWizard: 'Create', SubInputBoxStep: 'subTestValue' } }
+            },
+            { subQuickPick: undefined, subInputBox: 'subTestValue', subExecute: 'subExecuteValue' }
+        );
+    });
+
+    test("Unanswered steps", async () => {
+        await assertThrowsAsync(
+            async () => await validateWizardWithAnswers(
+                {
+                    promptSteps: [new QuickPickStep1(), new InputBoxStep1(), new InputBoxStep2()],
+                    answers: { steps: { QuickPickStep1: 'Pick 1' } }
+                },
+                {}
+            ),
+            /InputBoxStep1, InputBoxStep2/
+        );
+    });
+
+    test("Answer that doesn't match a pick", async () => {
+        await assertThrowsAsync(
+            async () => await validateWizardWithAnswers(
+                {
+                    promptSteps: [new QuickPickStep1()],
+                    answers: { steps: { QuickPickStep1: 'Pick 4' } }
+                },
+                {}
+            ),
+            /does not match/
+        );
+    });
+
+    test("Answers for warning messages and open dialogs", async () => {
+        const filePath: string = path.join(os.tmpdir(), 'test.zip');
+        await validateWizardWithAnswers(
+            {
+                promptSteps: [new WarningAndOpenDialogStep()],
+                answers: { steps: { WarningAndOpenDialogStep: ['yes', filePath] } }
+            },
+            { warning: 'Yes', openDialog: [filePath] }
+        );
+
+        await assertThrowsAsync(
+            async () => await validateWizardWithAnswers(
+                {
+                    promptSteps: [new WarningAndOpenDialogStep()],
+                    answers: { steps: { WarningAndOpenDialogStep: 'Maybe' } }
+                },
+                {}
+            ),
+            /does not match any of the choices.*"Yes", "No"/
+        );
+
+        await assertThrowsAsync(
+            async () => await validateWizardWithAnswers(
+                {
+                    promptSteps: [new WarningAndOpenDialogStep()],
+                    answers: { steps: { WarningAndOpenDialogStep: 'Yes' } }
+                },
+                {}
+            ),
+            /WarningAndOpenDialogStep/
+        );
+    });
+
+    test("Answer that fails validation", async () => {
+        await assertThrowsAsync(
+            async () => await validateWizardWithAnswers(
+                {
+                    promptSteps: [new ValidatedInputBoxStep()],
+                    answers: { steps: { ValidatedInputBoxStep: 'ab' } }
+                },
+                {}
+            ),
+            /at least 3 characters/
+        );
+    });
 });
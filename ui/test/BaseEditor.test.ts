@@ -0,0 +1,133 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BaseEditor } from '../src/BaseEditor';
+import { DialogResponses } from '../src/DialogResponses';
+import { UserCancelledError } from '../src/errors';
+import { nonNullValue } from '../src/utils/nonNull';
+import { assertThrowsAsync } from './assertThrowsAsync';
+import { testUserInput } from './global.test';
+
+// tslint:disable: max-classes-per-file
+
+class TestEditor extends BaseEditor<string> {
+    public remoteData: string = 'remote';
+    public remoteVersion: number = 0;
+    public updateCount: number = 0;
+
+    constructor() {
+        super('azureextensionui.test.showSavePrompt');
+    }
+
+    public async getData(): Promise<string> {
+        return this.remoteData;
+    }
+
+    public async updateData(_context: string, data: string): Promise<string> {
+        this.updateCount += 1;
+        this.remoteData = data;
+        this.remoteVersion += 1;
+        return data;
+    }
+
+    public async getFilename(): Promise<string> {
+        return 'test.txt';
+    }
+
+    public async getResourceName(): Promise<string> {
+        return 'testResource';
+    }
+
+    public async getSaveConfirmationText(): Promise<string> {
+        return 'Are you sure?';
+    }
+
+    public async getSize(): Promise<number> {
+        return 0;
+    }
+
+    /**
+     * Simulates someone else saving the file
+     */
+    public changeRemote(): void {
+        this.remoteData = 'changed';
+        this.remoteVersion += 1;
+    }
+}
+
+class VersionedTestEditor extends TestEditor {
+    public async getVersion(): Promise<string> {
+        return String(this.remoteVersion);
+    }
+}
+
+// tslint:disable-next-line: max-func-body-length
+suite('BaseEditor', () => {
+    let editor: TestEditor;
+
+    teardown(async () => {
+        await editor.dispose();
+        await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+    });
+
+    async function openAndEdit(): Promise<vscode.TextDocument> {
+        await editor.showEditor('testContext');
+        const textEditor: vscode.TextEditor = nonNullValue(vscode.window.activeTextEditor, 'activeTextEditor');
+        await textEditor.edit(editBuilder => editBuilder.insert(new vscode.Position(0, 0), 'local '));
+        return textEditor.document;
+    }
+
+    test('Overwrite', async () => {
+        editor = new VersionedTestEditor();
+        const doc: vscode.TextDocument = await openAndEdit();
+        editor.changeRemote();
+        await testUserInput.runWithInputs([DialogResponses.overwrite.title], async () => await editor.updateMatchingContext(doc.uri));
+        assert.equal(editor.remoteData, 'local remote');
+        assert.equal(editor.updateCount, 1);
+
+        const remoteDoc: vscode.TextDocument | undefined = vscode.workspace.textDocuments.find(d => d !== doc && path.basename(d.uri.fsPath) === 'test.txt');
+        assert.ok(remoteDoc && await fse.pathExists(remoteDoc.uri.fsPath), 'The remote file should be kept while the diff is open');
+    });
+
+    test('Take remote', async () => {
+        editor = new VersionedTestEditor();
+        const doc: vscode.TextDocument = await openAndEdit();
+        editor.changeRemote();
+        await testUserInput.runWithInputs([DialogResponses.takeRemote.title], async () => await editor.updateMatchingContext(doc.uri));
+        assert.equal(editor.remoteData, 'changed');
+        assert.equal(doc.getText(), 'changed');
+        assert.equal(editor.updateCount, 0);
+
+        // The remote version was taken, so the next save shouldn't conflict
+        await testUserInput.runWithInputs([], async () => await editor.updateMatchingContext(doc.uri));
+        assert.equal(editor.updateCount, 1);
+    });
+
+    test('Cancel', async () => {
+        editor = new VersionedTestEditor();
+        const doc: vscode.TextDocument = await openAndEdit();
+        editor.changeRemote();
+        await assertThrowsAsync(async () => await testUserInput.runWithInputs([DialogResponses.cancel.title], async () => await editor.updateMatchingContext(doc.uri)), UserCancelledError);
+        assert.equal(editor.remoteData, 'changed');
+        assert.equal(editor.updateCount, 0);
+
+        // Revert the local changes so that closing the editor doesn't prompt to save
+        await vscode.window.showTextDocument(doc);
+        await vscode.commands.executeCommand('workbench.action.files.revert');
+    });
+
+    test('Overwrites remote changes without prompting if getVersion is not implemented', async () => {
+        editor = new TestEditor();
+        const doc: vscode.TextDocument = await openAndEdit();
+        editor.changeRemote();
+        await testUserInput.runWithInputs([], async () => await editor.updateMatchingContext(doc.uri));
+        assert.equal(editor.remoteData, 'local remote');
+        assert.equal(editor.updateCount, 1);
+    });
+});
@@ -0,0 +1,79 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as fse from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigurationTarget, workspace, WorkspaceConfiguration } from 'vscode';
+import { IInternalTelemetryReporter } from '../src/createTelemetryReporter';
+import { enableLocalTelemetryLogSetting, LocalTelemetryReporter } from '../src/LocalTelemetryReporter';
+import { randomUtils } from '../src/utils/randomUtils';
+
+suite('LocalTelemetryReporter', () => {
+    const extensionPrefix: string = 'azureextensionui';
+    let logPath: string;
+    let innerEvents: string[];
+    const innerReporter: IInternalTelemetryReporter = {
+        sendTelemetryErrorEvent: (eventName: string): void => { innerEvents.push(eventName); }
+    };
+
+    async function setEnabled(enabled: boolean | undefined): Promise<void> {
+        const config: WorkspaceConfiguration = workspace.getConfiguration(extensionPrefix);
+        await config.update(enableLocalTelemetryLogSetting, enabled, ConfigurationTarget.Global);
+    }
+
+    async function readEvents(filePath: string): Promise<{ eventName: string, properties: {}, measurements: {} }[]> {
+        const contents: string = await fse.readFile(filePath, 'utf8');
+        return contents.split('\n').filter(l => !!l).map(l => <{ eventName: string, properties: {}, measurements: {} }>JSON.parse(l));
+    }
+
+    setup(() => {
+        logPath = path.join(os.tmpdir(), `azext-telemetry-${randomUtils.getRandomHexString(10)}`);
+        innerEvents = [];
+    });
+
+    teardown(async () => {
+        await setEnabled(undefined);
+        await fse.remove(logPath);
+    });
+
+    test('Disabled', async () => {
+        const reporter: LocalTelemetryReporter = new LocalTelemetryReporter(innerReporter, logPath, extensionPrefix);
+        reporter.sendTelemetryErrorEvent('event1', { result: 'Succeeded' }, { duration: 1 });
+        await reporter.flush();
+        assert.deepStrictEqual(innerEvents, ['event1']);
+        assert.strictEqual(await fse.pathExists(reporter.logFilePath), false);
+    });
+
+    test('Enabled', async () => {
+        await setEnabled(true);
+        const reporter: LocalTelemetryReporter = new LocalTelemetryReporter(innerReporter, logPath, extensionPrefix);
+        reporter.sendTelemetryErrorEvent('event1', { result: 'Succeeded' }, { duration: 1 });
+        reporter.sendTelemetryErrorEvent('event2', { result: 'Failed', error: 'Error' }, { duration: 2 });
+        await reporter.flush();
+        assert.deepStrictEqual(innerEvents, ['event1', 'event2']);
+
+        const events: { eventName: string, properties: {}, measurements: {} }[] = await readEvents(reporter.logFilePath);
+        assert.strictEqual(events.length, 2);
+        assert.strictEqual(events[0].eventName, 'event1');
+        assert.deepStrictEqual(events[1].properties, { result: 'Failed', error: 'Error' });
+        assert.deepStrictEqual(events[1].measurements, { duration: 2 });
+    });
+
+    test('Rotation', async () => {
+        await setEnabled(true);
+        const reporter: LocalTelemetryReporter = new LocalTelemetryReporter(innerReporter, logPath, extensionPrefix, 100);
+        for (let i: number = 0; i < 5; i += 1) {
+            reporter.sendTelemetryErrorEvent(`event${i}`, { result: 'Succeeded' }, { duration: i });
+        }
+        await reporter.flush();
+
+        assert.ok((await readEvents(reporter.backupLogFilePath)).length > 0);
+        const events: { eventName: string }[] = await readEvents(reporter.logFilePath);
+        assert.strictEqual(events[events.length - 1].eventName, 'event4');
+        assert.ok(events.length < 5);
+    });
+});
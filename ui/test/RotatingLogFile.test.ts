@@ -0,0 +1,84 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as fse from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { RotatingLogFile } from '../src/RotatingLogFile';
+import { randomUtils } from '../src/utils/randomUtils';
+
+suite('RotatingLogFile', () => {
+    let folder: string;
+
+    setup(() => {
+        folder = path.join(os.tmpdir(), `azext-logs-${randomUtils.getRandomHexString(10)}`);
+    });
+
+    teardown(async () => {
+        await fse.remove(folder);
+    });
+
+    test('Nothing written', async () => {
+        const logFile: RotatingLogFile = new RotatingLogFile(folder, 'Test Output', 5, 1024);
+        assert.strictEqual(await logFile.readTail(10), undefined);
+        assert.strictEqual(await fse.pathExists(folder), false);
+    });
+
+    test('Read tail', async () => {
+        const logFile: RotatingLogFile = new RotatingLogFile(folder, 'Test Output', 5, 1024);
+        logFile.append(`line1${os.EOL}line2${os.EOL}`);
+        logFile.append('line3');
+        logFile.append(os.EOL);
+        assert.strictEqual(await logFile.readTail(2), `line2${os.EOL}line3`);
+        assert.strictEqual(await logFile.readTail(10), `line1${os.EOL}line2${os.EOL}line3`);
+        assert.ok(logFile.currentFile && path.basename(logFile.currentFile).startsWith('Test-Output-'));
+    });
+
+    test('Rotation and retention', async () => {
+        const logFile: RotatingLogFile = new RotatingLogFile(folder, 'Test Output', 2, 10);
+        for (let i: number = 0; i < 5; i += 1) {
+            logFile.append(`This is line ${i}${os.EOL}`);
+        }
+        await logFile.flush();
+
+        const files: string[] = await fse.readdir(folder);
+        assert.strictEqual(files.length, 2);
+        assert.strictEqual(await logFile.readTail(10), 'This is line 4');
+    });
+
+    test('Only deletes its own files', async () => {
+        await fse.ensureDir(folder);
+        await fse.writeFile(path.join(folder, 'other.log'), 'other');
+        const logFile: RotatingLogFile = new RotatingLogFile(folder, 'Test Output', 1, 10);
+        logFile.append(`line1${os.EOL}`);
+        logFile.append(`line2${os.EOL}`);
+        await logFile.flush();
+        assert.strictEqual((await fse.readdir(folder)).length, 2);
+        assert.ok(await fse.pathExists(path.join(folder, 'other.log')));
+    });
+
+    test('Does not delete files of another channel whose name starts the same way', async () => {
+        const otherFile: string = path.join(folder, 'Test-Output-Other-2020-01-01T00-00-00-000Z-1.log');
+        await fse.ensureDir(folder);
+        await fse.writeFile(otherFile, 'other');
+        const logFile: RotatingLogFile = new RotatingLogFile(folder, 'Test Output', 1, 10);
+        logFile.append(`line1${os.EOL}`);
+        await logFile.flush();
+        assert.ok(await fse.pathExists(otherFile));
+    });
+
+    test('Dispose writes pending text', async () => {
+        const logFile: RotatingLogFile = new RotatingLogFile(folder, 'Test Output', 5, 1024);
+        logFile.append('line1');
+        await logFile.flush();
+        logFile.append('line2');
+        logFile.dispose();
+        // tslint:disable-next-line: no-non-null-assertion
+        assert.strictEqual(fse.readFileSync(logFile.currentFile!, 'utf8'), 'line1line2');
+        await logFile.flush();
+        assert.strictEqual(await logFile.readTail(10), 'line1line2');
+    });
+});
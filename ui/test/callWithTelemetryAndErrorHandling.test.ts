@@ -4,7 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as assert from 'assert';
-import { IActionContext } from '..';
+import { IActionContext, IRetryPolicy } from '..';
 import { callWithTelemetryAndErrorHandling, callWithTelemetryAndErrorHandlingSync } from '../src/callWithTelemetryAndErrorHandling';
 import { assertThrowsAsync } from './assertThrowsAsync';
 
@@ -24,6 +24,7 @@ async function testFuncErrorAsync(): Promise<string> {
     throw new Error('testFuncErrorAsync');
 }
 
+// tslint:disable-next-line: max-func-body-length
 suite('callWithTelemetryAndErrorHandling tests', () => {
     test('sync', async () => {
         assert.equal(callWithTelemetryAndErrorHandlingSync('callbackId', testFunc), testFunc());
@@ -63,4 +64,79 @@ suite('callWithTelemetryAndErrorHandling tests', () => {
             }),
             /testFuncErrorAsync/);
     });
+
+    suite('retry', () => {
+        function createThrottledError(headers: {} = {}): {} {
+            return { message: 'Too many requests', statusCode: 429, response: { status: 429, headers } };
+        }
+
+        async function callWithFailures(retryPolicy: IRetryPolicy | undefined, error: {}, numFailures: number): Promise<[string | undefined, IActionContext, number]> {
+            let attempts: number = 0;
+            let actionContext: IActionContext | undefined;
+            const result: string | undefined = await callWithTelemetryAndErrorHandling('callbackId', async (context: IActionContext) => {
+                actionContext = context;
+                context.errorHandling.suppressDisplay = true;
+                context.retryPolicy = retryPolicy;
+                attempts += 1;
+                if (attempts <= numFailures) {
+                    throw error;
+                }
+                return 'success';
+            });
+            // tslint:disable-next-line: no-non-null-assertion
+            return [result, actionContext!, attempts];
+        }
+
+        test('No policy', async () => {
+            const [result, context, attempts] = await callWithFailures(undefined, createThrottledError(), 1);
+            assert.strictEqual(result, undefined);
+            assert.strictEqual(attempts, 1);
+            assert.strictEqual(context.telemetry.measurements.attempts, undefined);
+        });
+
+        test('Retries until success', async () => {
+            const [result, context, attempts] = await callWithFailures({ initialDelayMs: 1 }, createThrottledError(), 2);
+            assert.strictEqual(result, 'success');
+            assert.strictEqual(attempts, 3);
+            assert.strictEqual(context.telemetry.measurements.attempts, 3);
+            assert.strictEqual(context.telemetry.properties.result, 'Succeeded');
+        });
+
+        test('Stops after max attempts', async () => {
+            const [result, context, attempts] = await callWithFailures({ initialDelayMs: 1, maxAttempts: 2 }, createThrottledError(), 5);
+            assert.strictEqual(result, undefined);
+            assert.strictEqual(attempts, 2);
+            assert.strictEqual(context.telemetry.measurements.attempts, 2);
+            assert.strictEqual(context.telemetry.properties.result, 'Failed');
+        });
+
+        test('Does not retry non-retryable categories', async () => {
+            const [result, , attempts] = await callWithFailures({ initialDelayMs: 1 }, { message: 'Bad input', code: 'InvalidParameter', statusCode: 400 }, 1);
+            assert.strictEqual(result, undefined);
+            assert.strictEqual(attempts, 1);
+        });
+
+        test('Custom retryable categories', async () => {
+            const [result, , attempts] = await callWithFailures({ initialDelayMs: 1, retryableCategories: ['conflict'] }, { message: 'Conflict', statusCode: 409 }, 1);
+            assert.strictEqual(result, 'success');
+            assert.strictEqual(attempts, 2);
+        });
+
+        test('Honors Retry-After', async () => {
+            const start: number = Date.now();
+            const [result, , attempts] = await callWithFailures({ initialDelayMs: 1 }, createThrottledError({ 'Retry-After': '1' }), 1);
+            assert.strictEqual(result, 'success');
+            assert.strictEqual(attempts, 2);
+            assert.ok(Date.now() - start >= 1000, 'Expected to wait for the duration specified by Retry-After');
+        });
+
+        test('Does not retry if Retry-After is longer than max delay', async () => {
+            const start: number = Date.now();
+            const [result, context, attempts] = await callWithFailures({ initialDelayMs: 1, maxDelayMs: 500 }, createThrottledError({ 'Retry-After': '3600' }), 1);
+            assert.strictEqual(result, undefined);
+            assert.strictEqual(attempts, 1);
+            assert.strictEqual(context.telemetry.properties.result, 'Failed');
+            assert.ok(Date.now() - start < 500, 'Expected to fail without waiting');
+        });
+    });
 });
@@ -0,0 +1,71 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { EventEmitter, Uri } from 'vscode';
+import { ILiveContentOptions } from '../index';
+import { ReadOnlyContent } from '../src/openReadOnlyContent';
+
+suite('openReadOnlyContent', () => {
+    let changeCount: number;
+    let emitter: EventEmitter<Uri>;
+
+    setup(() => {
+        changeCount = 0;
+        emitter = new EventEmitter<Uri>();
+        emitter.event(() => { changeCount += 1; });
+    });
+
+    function createContent(content: string, liveOptions?: ILiveContentOptions): ReadOnlyContent {
+        return new ReadOnlyContent(Uri.parse('azureextensionuiReadonly:///test.log'), emitter, content, liveOptions);
+    }
+
+    test('Keeps all content by default', async () => {
+        const content: ReadOnlyContent = createContent('line1\n');
+        await content.append('line2\nline3\n');
+        assert.equal(content.content, 'line1\nline2\nline3\n');
+        assert.equal(content.isLive, false);
+    });
+
+    test('Keeps the last lines', async () => {
+        const content: ReadOnlyContent = createContent('line1\nline2\nline3\n', { maxLines: 2 });
+        assert.equal(content.content, 'line2\nline3\n');
+
+        await content.append('line4\nline');
+        assert.equal(content.content, 'line4\nline');
+        await content.append('5');
+        assert.equal(content.content, 'line4\nline5');
+    });
+
+    test('Keeps the last bytes', async () => {
+        const content: ReadOnlyContent = createContent('', { maxBytes: 10 });
+        await content.append('line1\nline2\n');
+        assert.equal(content.content, 'line2\n', 'The partial first line should be dropped');
+
+        await content.append('averylongline');
+        assert.equal(content.content, 'rylongline', 'Should keep the bytes if there are no complete lines');
+    });
+
+    test('Does not keep a partial character', async () => {
+        const content: ReadOnlyContent = createContent('', { maxBytes: 4 });
+        await content.append('aé€'); // 'é' is 2 bytes and '€' is 3 bytes
+        assert.equal(content.content, '€');
+    });
+
+    test('Pause and resume', async () => {
+        const content: ReadOnlyContent = createContent('', { maxLines: 2 });
+        content.pause();
+        assert.equal(content.isPaused, true);
+        assert.equal(content.follow, false);
+        await content.append('line1\nline2\nline3\n');
+        assert.equal(changeCount, 0, 'The document should not update while paused');
+        assert.equal(content.content, 'line2\nline3\n', 'Content should still be collected while paused');
+
+        content.resume();
+        assert.equal(content.isPaused, false);
+        assert.equal(content.follow, true);
+        assert.equal(changeCount, 1);
+    });
+});
@@ -679,4 +679,66 @@ Time:2020-01-13T22:08:56.4055648Z`);
         assert.strictEqual(pe.message, 'EntryNotFound (FileSystemError): azureDatabases:/testCol33-cosmos-collection.json?id=/cosmosDBAttachedAccounts/127.0.0.1:27017/testDB/testCol33');
         assert.strictEqual(pe.isUserCancelledError, false);
     });
+
+    suite('Categories', () => {
+        const cases: [{}, string | undefined][] = [
+            [{ statusCode: 401, message: 'test' }, 'authentication'],
+            [{ message: 'Bad credentials' }, 'authentication'],
+            [new Error('{ "error": { "code": "AuthorizationFailed", "message": "test" } }'), 'authorization'],
+            [{ code: 'ResourceNotFound', message: 'test' }, 'not-found'],
+            [{ statusCode: 404, message: 'test' }, 'not-found'],
+            [{ code: 'EntryNotFound', message: 'test' }, 'not-found'],
+            [new Error('{ "Code": "Conflict", "Message": "test" }'), 'conflict'],
+            [{ statusCode: 412, message: 'test' }, 'conflict'],
+            [{ statusCode: 429, message: 'test' }, 'throttled'],
+            [{ statusCode: 409, code: 'OperationNotAllowed', message: 'Operation results in exceeding quota limits of Core.' }, 'quota'],
+            [{ code: 'ENOTFOUND', message: 'getaddrinfo ENOTFOUND management.azure.com' }, 'network'],
+            [{ code: 'InvalidParameter', message: 'test' }, 'validation'],
+            [{ statusCode: 503, message: 'test' }, 'server'],
+            [new Error('test'), undefined],
+            [new UserCancelledError(), undefined]
+        ];
+
+        for (const [err, category] of cases) {
+            test(`${String(category)}: ${parseError(err).errorType}`, () => {
+                assert.strictEqual(parseError(err).category, category);
+            });
+        }
+    });
+
+    test('Response info from ms-rest-js error', () => {
+        const headers: Map<string, string> = new Map([['x-ms-request-id', 'request1'], ['x-ms-correlation-request-id', 'correlation1']]);
+        const err: {} = {
+            code: 'ResourceGroupNotFound',
+            message: 'Resource group \'rg1\' could not be found.',
+            statusCode: 404,
+            response: {
+                status: 404,
+                headers
+            }
+        };
+        const pe: IParsedError = parseError(err);
+        assert.strictEqual(pe.errorType, 'ResourceGroupNotFound');
+        assert.strictEqual(pe.category, 'not-found');
+        assert.strictEqual(pe.statusCode, 404);
+        assert.strictEqual(pe.requestId, 'request1');
+        assert.strictEqual(pe.correlationId, 'correlation1');
+    });
+
+    test('Response info from nested response with plain headers', () => {
+        const err: {} = {
+            value: {
+                response: {
+                    statusCode: 500,
+                    headers: { 'X-MS-Request-Id': 'request2' },
+                    body: JSON.stringify({ Code: 'InternalServerError', Message: 'test' })
+                }
+            }
+        };
+        const pe: IParsedError = parseError(err);
+        assert.strictEqual(pe.category, 'server');
+        assert.strictEqual(pe.statusCode, 500);
+        assert.strictEqual(pe.requestId, 'request2');
+        assert.strictEqual(pe.correlationId, undefined);
+    });
 });
@@ -0,0 +1,177 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { commands, Disposable } from 'vscode';
+import * as types from '../index';
+import { registerBulkCommand } from '../src/AzureActionHandler';
+import { registerErrorHandler } from '../src/callWithTelemetryAndErrorHandling';
+import { AzExtParentTreeItem } from '../src/treeDataProvider/AzExtParentTreeItem';
+import { AzExtTreeDataProvider } from '../src/treeDataProvider/AzExtTreeDataProvider';
+import { AzExtTreeItem } from '../src/treeDataProvider/AzExtTreeItem';
+import { GenericTreeItem } from '../src/treeDataProvider/GenericTreeItem';
+import { delay } from '../src/utils/delay';
+import { randomUtils } from '../src/utils/randomUtils';
+
+class RootTreeItem extends AzExtParentTreeItem {
+    public label: string = 'root';
+    public contextValue: string = 'root';
+
+    public async loadMoreChildrenImpl(): Promise<AzExtTreeItem[]> {
+        return [];
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+}
+
+class AppTreeItem extends AzExtTreeItem {
+    public label: string = 'app1';
+    public contextValue: string = 'app';
+}
+
+class AutoSelectRootTreeItem extends RootTreeItem {
+    public autoSelectInTreeItemPicker: boolean = true;
+
+    public async loadMoreChildrenImpl(): Promise<AzExtTreeItem[]> {
+        return [new AppTreeItem(this)];
+    }
+}
+
+// tslint:disable-next-line: max-func-body-length
+suite('registerBulkCommand', () => {
+    let tree: AzExtTreeDataProvider;
+    let root: RootTreeItem;
+    let errors: unknown[] = [];
+    let errorHandler: Disposable;
+
+    suiteSetup(() => {
+        root = new RootTreeItem(undefined);
+        tree = new AzExtTreeDataProvider(root, 'test.loadMore');
+        errorHandler = registerErrorHandler(context => {
+            // Ignore the errors of individual items, which are combined into the command's error
+            if (!context.callbackId.endsWith('.item')) {
+                errors.push(context.error);
+            }
+            context.errorHandling.suppressDisplay = true;
+        });
+    });
+
+    suiteTeardown(() => {
+        errorHandler.dispose();
+    });
+
+    setup(() => {
+        errors = [];
+    });
+
+    function createTreeItems(count: number, contextValue: string = 'app'): AzExtTreeItem[] {
+        const treeItems: AzExtTreeItem[] = [];
+        // tslint:disable-next-line: no-increment-decrement
+        for (let i: number = 1; i <= count; i++) {
+            treeItems.push(new GenericTreeItem(root, { label: `${contextValue}${i}`, contextValue }));
+        }
+        return treeItems;
+    }
+
+    function registerTestCommand(callback: (context: types.IActionContext, treeItem: AzExtTreeItem) => Promise<void>, maxConcurrency?: number): string {
+        const commandId: string = `azureextensionui.test.bulk${randomUtils.getRandomHexString(10)}`;
+        registerBulkCommand(commandId, callback, { treeDataProvider: tree, expectedContextValues: 'app', progressTitle: 'Testing', maxConcurrency });
+        return commandId;
+    }
+
+    test('Runs all selected items with bounded concurrency', async () => {
+        const treeItems: AzExtTreeItem[] = createTreeItems(6);
+        const processed: string[] = [];
+        let activeCount: number = 0;
+        let maxActiveCount: number = 0;
+        const commandId: string = registerTestCommand(async (_context, treeItem) => {
+            activeCount += 1;
+            maxActiveCount = Math.max(activeCount, maxActiveCount);
+            await delay(10);
+            processed.push(treeItem.label);
+            activeCount -= 1;
+        }, 2);
+
+        await commands.executeCommand(commandId, treeItems[0], treeItems);
+        assert.deepEqual(processed.sort(), treeItems.map(ti => ti.label).sort());
+        assert.equal(maxActiveCount, 2);
+        assert.deepEqual(errors, []);
+    });
+
+    test('Only uses the clicked item if it is not part of the selection', async () => {
+        const treeItems: AzExtTreeItem[] = createTreeItems(3);
+        const processed: string[] = [];
+        const commandId: string = registerTestCommand(async (_context, treeItem) => { processed.push(treeItem.label); });
+
+        await commands.executeCommand(commandId, treeItems[0], treeItems.slice(1));
+        assert.deepEqual(processed, ['app1']);
+    });
+
+    test('Skips selected items that do not support the command', async () => {
+        const treeItems: AzExtTreeItem[] = [...createTreeItems(2), ...createTreeItems(2, 'slot')];
+        const processed: string[] = [];
+        const commandId: string = registerTestCommand(async (_context, treeItem) => { processed.push(treeItem.label); });
+
+        await commands.executeCommand(commandId, treeItems[0], treeItems);
+        assert.deepEqual(processed.sort(), ['app1', 'app2']);
+    });
+
+    test('Gives each item its own context', async () => {
+        const treeItems: AzExtTreeItem[] = createTreeItems(3);
+        const contexts: types.IActionContext[] = [];
+        const commandId: string = registerTestCommand(async (context, treeItem) => {
+            contexts.push(context);
+            context.telemetry.properties.label = treeItem.label;
+            await delay(10);
+        });
+
+        await commands.executeCommand(commandId, treeItems[0], treeItems);
+        assert.equal(new Set(contexts).size, 3);
+        assert.deepEqual(contexts.map(c => c.telemetry.properties.label).sort(), ['app1', 'app2', 'app3']);
+    });
+
+    test('Fails if no selected items support the command', async () => {
+        const treeItems: AzExtTreeItem[] = createTreeItems(2, 'slot');
+        const processed: string[] = [];
+        const commandId: string = registerTestCommand(async (_context, treeItem) => { processed.push(treeItem.label); });
+
+        await commands.executeCommand(commandId, treeItems[0], treeItems);
+        assert.deepEqual(processed, []);
+        assert.equal(errors.length, 1);
+        assert.ok(/None of the selected items/.test((<Error>errors[0]).message));
+    });
+
+    test('Runs the only item if the picker auto-selects it', async () => {
+        const autoSelectTree: AzExtTreeDataProvider = new AzExtTreeDataProvider(new AutoSelectRootTreeItem(undefined), 'test.loadMore');
+        const processed: string[] = [];
+        const commandId: string = `azureextensionui.test.bulk${randomUtils.getRandomHexString(10)}`;
+        registerBulkCommand(commandId, async (_context, treeItem) => { processed.push(treeItem.label); }, { treeDataProvider: autoSelectTree, expectedContextValues: 'app', progressTitle: 'Testing' });
+
+        await commands.executeCommand(commandId);
+        assert.deepEqual(errors, []);
+        assert.deepEqual(processed, ['app1']);
+    });
+
+    test('Aggregates errors', async () => {
+        const treeItems: AzExtTreeItem[] = createTreeItems(4);
+        const processed: string[] = [];
+        const commandId: string = registerTestCommand(async (_context, treeItem) => {
+            if (treeItem.label === 'app2' || treeItem.label === 'app4') {
+                throw new Error(`Failed to restart ${treeItem.label}.`);
+            }
+            processed.push(treeItem.label);
+        });
+
+        await commands.executeCommand(commandId, treeItems[0], treeItems);
+        assert.deepEqual(processed.sort(), ['app1', 'app3'], 'Other items should be processed even if some fail');
+        assert.equal(errors.length, 1, 'Expected a single aggregated error');
+        const message: string = (<Error>errors[0]).message;
+        assert.ok(/2 of 4/.test(message), message);
+        assert.ok(message.includes('app2: Failed to restart app2.'), message);
+        assert.ok(message.includes('app4: Failed to restart app4.'), message);
+    });
+});
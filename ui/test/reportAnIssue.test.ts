@@ -6,9 +6,15 @@
 // tslint:disable: max-func-body-length
 
 import * as assert from 'assert';
+import * as fse from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
 import { env } from 'vscode';
-import { IParsedError } from '..';
+import { IAzExtOutputChannel, IParsedError } from '..';
+import { createAzExtOutputChannel } from '../src/AzExtOutputChannel';
+import { ext } from '../src/extensionVariables';
 import { getReportAnIssueLink, maxUrlLength } from '../src/reportAnIssue';
+import { randomUtils } from '../src/utils/randomUtils';
 
 suite('getReportAnIssueLink', () => {
     const pasteIntoWindowBody: string = "https://github.com/Microsoft/azureextensionui/issues/new?body=The%20issue%20text%20was%20copied%20to%20the%20clipboard.%20%20Please%20paste%20it%20into%20this%20window.";
@@ -72,6 +78,32 @@ suite('getReportAnIssueLink', () => {
         assert(body.includes(message));
     });
 
+    test('Redacts the output log', async () => {
+        const pe: IParsedError = {
+            errorType: 'error Type',
+            isUserCancelledError: false,
+            message: 'This is my message',
+            stack: undefined
+        };
+
+        const logPath: string = path.join(os.tmpdir(), `azext-logs-${randomUtils.getRandomHexString(10)}`);
+        const outputChannel: IAzExtOutputChannel = ext.outputChannel;
+        const testOutputChannel: IAzExtOutputChannel = createAzExtOutputChannel('Report An Issue Test', 'azureextensionui', { logPath });
+        ext.outputChannel = testOutputChannel;
+        try {
+            testOutputChannel.appendLine('Signed in as someone.else@contoso.com');
+            const link: string = await getReportAnIssueLink('actionId', pe, {});
+
+            assert(linkIncludes(link, 'Output Log'));
+            assert(linkIncludes(link, '<REDACTED>:email'));
+            assert(!linkIncludes(link, 'someone.else@contoso.com'));
+        } finally {
+            ext.outputChannel = outputChannel;
+            testOutputChannel.dispose();
+            await fse.remove(logPath);
+        }
+    });
+
     suite("issueProperties", () => {
         test('single property', async () => {
             const message: string = "This is my message";
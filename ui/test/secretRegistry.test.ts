@@ -0,0 +1,56 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { Disposable } from 'vscode';
+import { parseError } from '../src/parseError';
+import { getReportAnIssueLink } from '../src/reportAnIssue';
+import { maskSecretValues, maskValues, registerSecretValue } from '../src/secretRegistry';
+
+suite('secretRegistry', () => {
+    const secret: string = 'sv=2019&sig=ab+c/d=';
+    let disposables: Disposable[] = [];
+
+    teardown(() => {
+        disposables.forEach(d => d.dispose());
+        disposables = [];
+    });
+
+    test('Masks registered values', () => {
+        disposables.push(registerSecretValue(secret));
+        assert.strictEqual(maskSecretValues(`url?${secret}`), 'url?***');
+        assert.strictEqual(maskSecretValues(`url?${encodeURIComponent(secret)}`), 'url?***');
+        assert.strictEqual(maskSecretValues('nothing secret'), 'nothing secret');
+    });
+
+    test('Stops masking after dispose', () => {
+        const disposable: Disposable = registerSecretValue(secret);
+        disposable.dispose();
+        assert.strictEqual(maskSecretValues(`url?${secret}`), `url?${secret}`);
+    });
+
+    test('Same value registered twice', () => {
+        const disposable1: Disposable = registerSecretValue(secret);
+        disposables.push(registerSecretValue(secret));
+        disposable1.dispose();
+        assert.strictEqual(maskSecretValues(secret), '***');
+    });
+
+    test('Longer values are masked first', () => {
+        assert.strictEqual(maskValues('password123!', ['password', 'password123']), '***!');
+    });
+
+    test('parseError', () => {
+        disposables.push(registerSecretValue(secret));
+        assert.strictEqual(parseError(new Error(`Failed to access url?${secret}`)).message, 'Failed to access url?***');
+    });
+
+    test('reportAnIssue', async () => {
+        disposables.push(registerSecretValue(secret));
+        const link: string = await getReportAnIssueLink('actionId', { errorType: 'Error', isUserCancelledError: false, message: 'message' }, { url: `url?${secret}` });
+        assert.ok(!decodeURIComponent(link).includes(secret));
+        assert.ok(decodeURIComponent(link).includes('url?***'));
+    });
+});
@@ -0,0 +1,63 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { Disposable } from 'vscode';
+import { TelemetryProperties } from '..';
+import { redactTelemetryProperties, redactTelemetryValue, registerTelemetryRedactionRule } from '../src/telemetryRedaction';
+
+suite('telemetryRedaction', () => {
+    test('Home directory', () => {
+        const filePath: string = path.join(os.homedir(), 'repos', 'myProject', 'file.txt');
+        assert.strictEqual(redactTelemetryValue(`Failed to read "${filePath}".`), 'Failed to read "<REDACTED>:path".');
+    });
+
+    test('User name in other paths', () => {
+        assert.strictEqual(redactTelemetryValue('C:\\Users\\someone\\file.txt'), 'C:\\Users\\<REDACTED>\\file.txt');
+        assert.strictEqual(redactTelemetryValue('/home/someone/file.txt'), '/home/<REDACTED>/file.txt');
+    });
+
+    test('GUID', () => {
+        assert.strictEqual(redactTelemetryValue('Subscription 2d8e3e42-0f3b-4a5c-9a3e-8f2f1c0d7b6a not found'), 'Subscription <REDACTED>:guid not found');
+    });
+
+    test('Email', () => {
+        assert.strictEqual(redactTelemetryValue('User someone.else@contoso.com is not authorized'), 'User <REDACTED>:email is not authorized');
+        assert.strictEqual(redactTelemetryValue('Failed to install typescript@3.8.3'), 'Failed to install typescript@3.8.3');
+    });
+
+    test('SAS token', () => {
+        assert.strictEqual(redactTelemetryValue('https://account.blob.core.windows.net/c?sv=2019-02-02&sig=abc%2Bdef%3D&se=2020'), 'https://account.blob.core.windows.net/c?sv=2019-02-02&sig=<REDACTED>&se=2020');
+    });
+
+    test('Connection string', () => {
+        assert.strictEqual(
+            redactTelemetryValue('DefaultEndpointsProtocol=https;AccountName=account;AccountKey=abc+def==;EndpointSuffix=core.windows.net'),
+            'DefaultEndpointsProtocol=https;AccountName=account;AccountKey=<REDACTED>;EndpointSuffix=core.windows.net'
+        );
+    });
+
+    test('Custom rule', () => {
+        const disposable: Disposable = registerTelemetryRedactionRule({ pattern: /secretName\w+/g });
+        try {
+            assert.strictEqual(redactTelemetryValue('Failed to get secretName123'), 'Failed to get <REDACTED>');
+        } finally {
+            disposable.dispose();
+        }
+        assert.strictEqual(redactTelemetryValue('Failed to get secretName123'), 'Failed to get secretName123');
+    });
+
+    test('Only redacts the given properties', () => {
+        const properties: TelemetryProperties = {
+            errorMessage: 'User someone@contoso.com is not authorized',
+            requestId: '2d8e3e42-0f3b-4a5c-9a3e-8f2f1c0d7b6a'
+        };
+        redactTelemetryProperties(properties, ['errorMessage']);
+        assert.strictEqual(properties.errorMessage, 'User <REDACTED>:email is not authorized');
+        assert.strictEqual(properties.requestId, '2d8e3e42-0f3b-4a5c-9a3e-8f2f1c0d7b6a');
+    });
+});